@@ -16,6 +16,8 @@
 // | libzmq     | CMake             | CMake                 |
 // | monero     | CMake             | CMake                 |
 // | OpenSSL    | custom            | custom                |
+// | polyseed   | custom            | custom                |
+// | utf8proc   | custom            | custom                |
 //
 
 import { mkdir, rm } from 'fs/promises'
@@ -28,6 +30,8 @@ import { libunbound } from './libraries/libunbound'
 import { libzmq } from './libraries/libzmq'
 import { lwsf } from './libraries/lwsf'
 import { openssl } from './libraries/openssl'
+import { polyseed } from './libraries/polyseed'
+import { utf8proc } from './libraries/utf8proc'
 import { lsr, tmpPath } from './utils/common'
 import { defineLib } from './utils/lib'
 import { makeIosPlatforms, makePlatforms } from './utils/platforms'
@@ -37,7 +41,7 @@ const ffi = defineLib({
   name: 'ffi',
   hash: '1',
   cacheTag: undefined, // Run every time
-  libDeps: ['lwsf'],
+  libDeps: ['lwsf', 'polyseed', 'utf8proc'],
 
   async build(build, platform, prefixPath) {
     // Source list (from src/):
@@ -61,7 +65,8 @@ const ffi = defineLib({
       join(lwsfPath, 'include'),
       join(build.basePath, 'monero/src'),
       join(build.basePath, 'monero/contrib/epee/include'),
-      join(build.basePath, 'monero/external/easylogging++')
+      join(build.basePath, 'monero/external/easylogging++'),
+      join(build.basePath, 'monero/external/rapidjson/include')
     ]
     const libPaths = [join(prefixPath, 'lib')]
     const libs = [
@@ -71,9 +76,11 @@ const ffi = defineLib({
       'boost_serialization',
       'boost_thread',
       'crypto',
+      'polyseed',
       'sodium',
       'ssl',
-      'unbound'
+      'unbound',
+      'utf8proc'
     ]
 
     if (platform.type === 'android') {
@@ -239,6 +246,8 @@ async function main(): Promise<void> {
   libzmq(platforms)
   lwsf(platforms)
   openssl(platforms)
+  polyseed(platforms)
+  utf8proc(platforms)
 
   // await startBuild('libsodium', { basePath: tmpPath })
   await startBuild(process.argv[2] ?? 'default', { basePath: tmpPath })
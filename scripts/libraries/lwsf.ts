@@ -281,7 +281,7 @@ private:
 
 export const lwsf = defineLib({
   name: 'lwsf',
-  cacheTag: '0',
+  cacheTag: '2',
   libDeps: ['boost', 'libsodium', 'libunbound', 'libzmq', 'openssl'],
   deps: ['monero.clone'],
 
@@ -304,13 +304,66 @@ export const lwsf = defineLib({
 #include <chrono>
 #include <cstdint>
 #include <limits>
+#include <map>
+#include <mutex>
 #include <stdexcept>
 
-// API key storage for request injection (added by react-native build)
+// API key storage for request injection (added by react-native build).
+// Keys are bound to a wallet's primary address and the server it was
+// given for, falling back to the global key for other servers and for
+// wallets without their own.
 namespace lwsf { namespace config {
+  static std::mutex g_api_key_mutex;
   static std::string g_api_key;
-  const std::string& api_key() { return g_api_key; }
-  void set_api_key(const std::string& k) { g_api_key = k; }
+  static std::map<std::pair<std::string, std::string>, std::string> g_api_keys;
+  static std::map<std::string, std::string> g_servers;
+  static thread_local std::string t_current_address;
+  void set_api_key(const std::string& k) {
+    std::lock_guard<std::mutex> lock(g_api_key_mutex);
+    g_api_key = k;
+  }
+  void set_api_key_for(const std::string& address, const std::string& server, const std::string& k) {
+    std::lock_guard<std::mutex> lock(g_api_key_mutex);
+    if (k.empty()) g_api_keys.erase({address, server});
+    else g_api_keys[{address, server}] = k;
+  }
+  void set_server_for(const std::string& address, const std::string& server) {
+    std::lock_guard<std::mutex> lock(g_api_key_mutex);
+    g_servers[address] = server;
+  }
+  void forget_account(const std::string& address) {
+    std::lock_guard<std::mutex> lock(g_api_key_mutex);
+    g_servers.erase(address);
+    for (auto it = g_api_keys.begin(); it != g_api_keys.end();) {
+      if (it->first.first == address) it = g_api_keys.erase(it);
+      else ++it;
+    }
+  }
+  std::string current_address() { return t_current_address; }
+  void set_current_address(const std::string& address) { t_current_address = address; }
+  std::string api_key_for(const std::string& address) {
+    std::lock_guard<std::mutex> lock(g_api_key_mutex);
+    const auto server = g_servers.find(address);
+    if (server == g_servers.end()) return g_api_key;
+    const auto it = g_api_keys.find({address, server->second});
+    return it != g_api_keys.end() ? it->second : g_api_key;
+  }
+
+  // get_random_outs and submit_raw_tx carry no address, so they use the
+  // account the current thread is building or sending a transaction for.
+  // Any other request without an address gets the global key.
+  static std::string payload_address(const boost::string_ref endpoint, const std::string& payload) {
+    static const std::string field = "\\"address\\":\\"";
+    const size_t start = payload.find(field);
+    if (start != std::string::npos) {
+      const size_t end = payload.find('"', start + field.size());
+      if (end != std::string::npos) return payload.substr(start + field.size(), end - start - field.size());
+    }
+    std::string name(endpoint.data(), endpoint.size());
+    if (!name.empty() && name.front() == '/') name.erase(0, 1);
+    if (name == "get_random_outs" || name == "submit_raw_tx") return t_current_address;
+    return "";
+  }
 }}
 
 // Forward declarations for the nym-fetch interceptor (added by
@@ -346,11 +399,11 @@ namespace nymfetch {
       {"Content-Type", "application/json; charset=utf-8"}
     };
 
-    // Inject api_key if set (added by react-native build)
+    // Inject the account's api_key if set (added by react-native build)
     std::string body_str;
-    const std::string& key = config::api_key();
+    std::string original(reinterpret_cast<const char*>(payload.data()), payload.size());
+    const std::string key = config::api_key_for(config::payload_address(endpoint, original));
     if (!key.empty()) {
-      std::string original(reinterpret_cast<const char*>(payload.data()), payload.size());
       size_t pos = original.rfind('}');
       if (pos != std::string::npos && pos > 0) {
         body_str = original.substr(0, pos);
@@ -360,7 +413,7 @@ namespace nymfetch {
         body_str = original;
       }
     } else {
-      body_str.assign(reinterpret_cast<const char*>(payload.data()), payload.size());
+      body_str = original;
     }
 
     // Nym path: delegate to JS fetch bridge instead of hitting the network
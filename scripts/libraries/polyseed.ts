@@ -0,0 +1,47 @@
+import { copyFile, mkdir, readdir } from 'fs/promises'
+import { join } from 'path'
+
+import { defineLib } from '../utils/lib'
+
+export const polyseed = defineLib({
+  name: 'polyseed',
+  cacheTag: '0',
+
+  // v2.0.0:
+  url: 'https://github.com/tevador/polyseed.git',
+  hash: 'v2.0.0',
+
+  build: async (build, platform, prefixPath) => {
+    // Polyseed is a handful of plain C files,
+    // so compile them directly instead of cross-compiling with CMake:
+    const sources = (await readdir(join(build.cwd, 'src'))).filter(name =>
+      name.endsWith('.c')
+    )
+    const sdkFlags =
+      platform.type === 'ios' ? platform.sdkFlags.CFLAGS.split(' ') : []
+    await build.exec(platform.tools.CC, [
+      '-c',
+      '-O2',
+      '-DPOLYSEED_STATIC',
+      ...sdkFlags,
+      `-I${join(build.cwd, 'include')}`,
+      ...sources.map(name => join(build.cwd, 'src', name))
+    ])
+    await build.exec(platform.tools.AR, [
+      'rcs',
+      'libpolyseed.a',
+      ...sources.map(name => name.replace(/\.c$/, '.o'))
+    ])
+
+    await mkdir(join(prefixPath, 'include'), { recursive: true })
+    await mkdir(join(prefixPath, 'lib'), { recursive: true })
+    await copyFile(
+      join(build.cwd, 'include/polyseed.h'),
+      join(prefixPath, 'include/polyseed.h')
+    )
+    await copyFile(
+      join(build.cwd, 'libpolyseed.a'),
+      join(prefixPath, 'lib/libpolyseed.a')
+    )
+  }
+})
@@ -0,0 +1,39 @@
+import { copyFile, mkdir } from 'fs/promises'
+import { join } from 'path'
+
+import { defineLib } from '../utils/lib'
+
+export const utf8proc = defineLib({
+  name: 'utf8proc',
+  cacheTag: '0',
+
+  // v2.9.0:
+  url: 'https://github.com/JuliaStrings/utf8proc.git',
+  hash: 'v2.9.0',
+
+  build: async (build, platform, prefixPath) => {
+    // utf8proc is a single C file (which includes its own data tables),
+    // so compile it directly instead of cross-compiling with CMake:
+    const sdkFlags =
+      platform.type === 'ios' ? platform.sdkFlags.CFLAGS.split(' ') : []
+    await build.exec(platform.tools.CC, [
+      '-c',
+      '-O2',
+      '-DUTF8PROC_STATIC',
+      ...sdkFlags,
+      join(build.cwd, 'utf8proc.c')
+    ])
+    await build.exec(platform.tools.AR, ['rcs', 'libutf8proc.a', 'utf8proc.o'])
+
+    await mkdir(join(prefixPath, 'include'), { recursive: true })
+    await mkdir(join(prefixPath, 'lib'), { recursive: true })
+    await copyFile(
+      join(build.cwd, 'utf8proc.h'),
+      join(prefixPath, 'include/utf8proc.h')
+    )
+    await copyFile(
+      join(build.cwd, 'libutf8proc.a'),
+      join(prefixPath, 'lib/libutf8proc.a')
+    )
+  }
+})
@@ -1,19 +1,99 @@
 'use strict'
 
+import {
+  asArray,
+  asJSON,
+  asMaybe,
+  asObject,
+  asString,
+  type Cleaner
+} from 'cleaners'
+
+import {
+  asBooleanString,
+  asDaemonHealth,
+  asDerivedKeys,
+  asFeeEstimate,
+  asGeneratedWallet,
+  asImportedWalletBackup,
+  asImportResult,
+  asIntegerString,
+  asLwsAccountStatus,
+  asLwsImportRequest,
+  asLwsLoginResult,
+  asMaxSpendable,
+  asMessageVerification,
+  asMoneroLwsfErrorCode,
+  asMoneyTransferPayload,
+  asNymFetchRequestPayload,
+  asOfflineSignedTransaction,
+  asOutputInfo,
+  asParsedUri,
+  asPendingTransactionPayload,
+  asReserveProofCheck,
+  asSignedTransaction,
+  asSubaddress,
+  asSubaddressAccount,
+  asSyncCompletedPayload,
+  asSyncProgressPayload,
+  asTransactionChanges,
+  asTransactionsPage,
+  asTxKeyCheck,
+  asTxProofCheck,
+  asUnsignedTransaction,
+  asUnsignedTransactionDescription,
+  asWalletEventData,
+  asWalletStatus
+} from './cleaners'
+import { startFetchTransport } from './fetchTransport'
 import type {
+  DaemonFailoverOptions,
+  DaemonHealth,
   DerivedKeys,
   EncodeUriParams,
+  FeeEstimate,
+  FetchTransportFunction,
+  FetchTransportOptions,
   GeneratedWallet,
+  ImportedWalletBackup,
+  ImportResult,
+  LwsAccountStatus,
+  LwsImportRequest,
+  LwsLoginResult,
+  MaxSpendable,
+  MessageVerification,
   NetworkType,
+  OfflineSignedTransaction,
+  OpenWalletOptions,
+  OutputInfo,
+  OutputQuery,
   ParsedUri,
   Recipient,
+  RescanOptions,
+  ReserveProofCheck,
+  ReserveProofOptions,
+  SeedType,
   SignedTransaction,
+  SignMessageOptions,
+  Subaddress,
+  SubaddressAccount,
+  SweepAllOptions,
+  TransactionChanges,
   TransactionPriority,
+  TransactionQuery,
   TransactionsPage,
+  TxKeyCheck,
+  TxProofCheck,
+  UnsignedTransaction,
+  UnsignedTransactionDescription,
   WalletBackend,
+  WalletEventData,
+  WalletEventName,
+  WalletEventOptions,
+  WalletEvents,
   WalletStatus
 } from './types'
-import { networkTypeToIntString } from './types'
+import { MoneroLwsfError, networkTypeToIntString } from './types'
 
 /**
  * The shape of the native C++ module exposed to React Native.
@@ -33,45 +113,231 @@ export interface NativeMoneroLwsfModule {
   readonly documentDirectory: string
 }
 
+/**
+ * A source of "MoneroWalletEvent" events, such as a `NativeEventEmitter`
+ * wrapping the native module.
+ */
+export interface MoneroEventSource {
+  readonly addListener: (
+    eventType: string,
+    listener: (event: unknown) => void
+  ) => { remove: () => void }
+}
+
+/** Turns a raw native event into a handler event, or undefined if malformed. */
+type WalletEventParser<T> = (event: WalletEventData) => T | undefined
+
+/** Parses a wallet event's JSON `data` string and tags it with its wallet. */
+function walletEventParser<T>(
+  asPayload: Cleaner<T>
+): WalletEventParser<T & { walletId: string }> {
+  const asData = asMaybe(asJSON(asPayload))
+  return event => {
+    const payload = asData(event.data)
+    if (payload == null) return
+    return { ...payload, walletId: event.walletId }
+  }
+}
+
+/** Parsers for each event delivered through `CppBridge.on`. */
+const walletEventParsers: {
+  [E in WalletEventName]: WalletEventParser<WalletEvents[E]>
+} = {
+  pendingTransactionReceived: walletEventParser(asPendingTransactionPayload),
+  moneySpent: walletEventParser(asMoneyTransferPayload),
+  moneyReceived: walletEventParser(asMoneyTransferPayload),
+  syncProgress: walletEventParser(asSyncProgressPayload),
+  syncCompleted: walletEventParser(asSyncCompletedPayload),
+  nymFetchRequest: event => {
+    const payload = asMaybe(asJSON(asNymFetchRequestPayload))(event.data)
+    if (payload == null) return
+    // The native side reuses the walletId slot for the request id:
+    return { ...payload, requestId: event.walletId }
+  }
+}
+
+/** Error envelope thrown by the native `MoneroError` exception. */
+const asErrorEnvelope = asJSON(
+  asObject({
+    code: asMaybe(asMoneroLwsfErrorCode, 'UNKNOWN_ERROR'),
+    message: asString
+  })
+)
+
+/**
+ * Converts whatever the native module rejected with into a
+ * `MoneroLwsfError`. Errors that did not come from `MoneroError`
+ * (such as a C++ `std::invalid_argument`) become `UNKNOWN_ERROR`.
+ */
+function toMoneroLwsfError(method: string, error: unknown): MoneroLwsfError {
+  if (error instanceof MoneroLwsfError) return error
+  const message = error instanceof Error ? error.message : String(error)
+  const envelope = asMaybe(asErrorEnvelope)(message)
+  if (envelope == null) {
+    return new MoneroLwsfError('UNKNOWN_ERROR', message, method)
+  }
+  return new MoneroLwsfError(envelope.code, envelope.message, method)
+}
+
 export class CppBridge {
   private readonly module: NativeMoneroLwsfModule
+  private readonly eventSource: MoneroEventSource | undefined
+  private stopFetchTransport: (() => void) | undefined
+  private readonly stopHealthChecks = new Map<string, () => void>()
 
-  constructor(moneroLwsfModule: NativeMoneroLwsfModule) {
+  /**
+   * @param moneroLwsfModule - The native module
+   * @param eventSource - Where to receive native wallet events from.
+   *                      Required for `on`; `makeMonero` provides one.
+   */
+  constructor(
+    moneroLwsfModule: NativeMoneroLwsfModule,
+    eventSource?: MoneroEventSource
+  ) {
     this.module = moneroLwsfModule
+    this.eventSource = eventSource
+  }
+
+  /**
+   * Subscribe to a native wallet event.
+   *
+   * Handlers receive the parsed, validated payload. Wallet events include
+   * the `walletId` that produced them, while `nymFetchRequest` events
+   * include the `requestId` to pass to `resolveFetch` / `rejectFetch`.
+   * Events with malformed payloads are dropped.
+   *
+   * @param eventName - The event to listen for
+   * @param handler - Called with each matching event
+   * @param opts - Optional `walletId` filter
+   * @returns A function that removes the subscription
+   */
+  on<E extends WalletEventName>(
+    eventName: E,
+    handler: (event: WalletEvents[E]) => void,
+    opts: WalletEventOptions = {}
+  ): () => void {
+    if (this.eventSource == null) {
+      throw new Error('CppBridge was constructed without an event source')
+    }
+    const { walletId } = opts
+    const parse: WalletEventParser<WalletEvents[E]> =
+      walletEventParsers[eventName]
+    const filterWallet = walletId != null && eventName !== 'nymFetchRequest'
+
+    const subscription = this.eventSource.addListener(
+      'MoneroWalletEvent',
+      (raw: unknown) => {
+        const event = asMaybe(asWalletEventData)(raw)
+        if (event?.eventName !== eventName) return
+        if (filterWallet && event.walletId !== walletId) return
+        const parsed = parse(event)
+        if (parsed != null) handler(parsed)
+      }
+    )
+    return () => {
+      subscription.remove()
+    }
+  }
+
+  /**
+   * Call a native method, turning any failure into a `MoneroLwsfError`.
+   */
+  private async call(method: string, args: string[]): Promise<string> {
+    try {
+      return await this.module.callMonero(method, args)
+    } catch (error: unknown) {
+      throw toMoneroLwsfError(method, error)
+    }
+  }
+
+  /**
+   * Call a native method and validate its response with a cleaner,
+   * raising an `INVALID_RESPONSE` error if the output is malformed.
+   */
+  private async callAndClean<T>(
+    method: string,
+    args: string[],
+    cleaner: Cleaner<T>
+  ): Promise<T> {
+    const response = await this.call(method, args)
+    try {
+      return cleaner(response)
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new MoneroLwsfError(
+        'INVALID_RESPONSE',
+        `Malformed native response: ${reason}`,
+        method
+      )
+    }
+  }
+
+  /**
+   * Periodically runs checkDaemonHealth for a wallet with several daemons,
+   * replacing any earlier schedule for the same wallet.
+   */
+  private startHealthChecks(
+    walletId: string,
+    daemonAddresses: string[],
+    opts: DaemonFailoverOptions
+  ): void {
+    const { healthCheckIntervalMs = 60000, maxHeightLag = 10 } = opts
+    this.stopHealthChecks.get(walletId)?.()
+    if (daemonAddresses.length < 2) return
+
+    let checking = false
+    const interval = setInterval(() => {
+      if (checking) return
+      checking = true
+      this.checkDaemonHealth(walletId, maxHeightLag)
+        .catch(() => {})
+        .finally(() => {
+          checking = false
+        })
+    }, healthCheckIntervalMs)
+
+    this.stopHealthChecks.set(walletId, () => {
+      clearInterval(interval)
+      this.stopHealthChecks.delete(walletId)
+    })
   }
 
   /**
    * Generate a new wallet's keys in memory (no disk I/O).
    * @param nettype - Network type (0=mainnet, 1=testnet, 2=stagenet)
    * @param language - Mnemonic language (e.g., "English")
-   * @returns Generated wallet with mnemonic and spend keys
+   * @param seedType - 'legacy' for a 25-word seed, or 'polyseed' for a
+   *                   16-word seed with an embedded birthday
+   * @returns Generated wallet with mnemonic, spend keys, and restore height
    */
   async generateWallet(
     nettype: NetworkType,
-    language: string = 'English'
+    language: string = 'English',
+    seedType: SeedType = 'legacy'
   ): Promise<GeneratedWallet> {
-    const response = await this.module.callMonero('generateWallet', [
-      networkTypeToIntString(nettype),
-      language
-    ])
-    return JSON.parse(response) as GeneratedWallet
+    return await this.callAndClean(
+      'generateWallet',
+      [networkTypeToIntString(nettype), language, seedType],
+      asJSON(asGeneratedWallet)
+    )
   }
 
   /**
    * Derive all keys from a mnemonic (no disk I/O).
-   * @param mnemonic - The 25-word mnemonic seed
+   * @param mnemonic - A 25-word legacy seed or 16-word polyseed
    * @param nettype - Network type (0=mainnet, 1=testnet, 2=stagenet)
-   * @returns All four keys (view and spend, public and secret)
+   * @returns All four keys (view and spend, public and secret),
+   *          plus the seed type and any birthday-derived restore height
    */
   async seedAndKeysFromMnemonic(
     mnemonic: string,
     nettype: NetworkType
   ): Promise<DerivedKeys> {
-    const response = await this.module.callMonero('seedAndKeysFromMnemonic', [
-      mnemonic,
-      networkTypeToIntString(nettype)
-    ])
-    return JSON.parse(response) as DerivedKeys
+    return await this.callAndClean(
+      'seedAndKeysFromMnemonic',
+      [mnemonic, networkTypeToIntString(nettype)],
+      asJSON(asDerivedKeys)
+    )
   }
 
   /**
@@ -86,12 +352,11 @@ export class CppBridge {
     nettype: NetworkType,
     daemonAddress: string
   ): Promise<number> {
-    const response = await this.module.callMonero('getNetworkBlockHeight', [
-      backend,
-      networkTypeToIntString(nettype),
-      daemonAddress
-    ])
-    return parseInt(response, 10)
+    return await this.callAndClean(
+      'getNetworkBlockHeight',
+      [backend, networkTypeToIntString(nettype), daemonAddress],
+      asIntegerString
+    )
   }
 
   /**
@@ -104,22 +369,29 @@ export class CppBridge {
     address: string,
     nettype: NetworkType
   ): Promise<boolean> {
-    const response = await this.module.callMonero('isValidAddress', [
-      address,
-      networkTypeToIntString(nettype)
-    ])
-    return response === 'true'
+    return await this.callAndClean(
+      'isValidAddress',
+      [address, networkTypeToIntString(nettype)],
+      asBooleanString
+    )
   }
 
   /**
-   * Open or create a wallet. If already open, returns current status.
+   * Open or create a wallet. If already open, adopts the new daemon list
+   * and returns current status.
    * If wallet exists on disk, opens it. Otherwise creates from mnemonic.
    * @param walletId - Unique identifier for the wallet
    * @param backend - Backend type ("lws" or "monerod")
-   * @param mnemonic - The 25-word mnemonic seed
+   * @param mnemonic - A 25-word legacy seed or 16-word polyseed
    * @param nettype - Network type (0=mainnet, 1=testnet, 2=stagenet)
-   * @param restoreHeight - Block height to restore from
-   * @param daemonAddress - Daemon address to connect to
+   * @param restoreHeight - Block height to restore from. For polyseeds,
+   *                        0 means "use the seed's birthday".
+   * @param daemonAddress - Daemon address to connect to, or several
+   *                        in order of preference for automatic failover
+   * @param opts - Failover settings, used when there are several daemons
+   * @param opts.lwsApiKey - API key for this wallet's LWS requests to
+   *                         the active daemon. Replaces the current key
+   *                         if already open.
    * @returns Current wallet status (heights and balances)
    */
   async openWallet(
@@ -129,29 +401,95 @@ export class CppBridge {
     password: string,
     nettype: NetworkType,
     restoreHeight: number,
-    daemonAddress: string
+    daemonAddress: string | string[],
+    opts: OpenWalletOptions = {}
   ): Promise<WalletStatus> {
-    const response = await this.module.callMonero('openWallet', [
-      this.module.documentDirectory,
-      walletId,
-      backend,
-      mnemonic,
-      password,
-      networkTypeToIntString(nettype),
-      restoreHeight.toString(),
-      daemonAddress
-    ])
-    return JSON.parse(response) as WalletStatus
+    const { lwsApiKey = '' } = opts
+    const daemonAddresses = [daemonAddress].flat()
+    const status = await this.callAndClean(
+      'openWallet',
+      [
+        this.module.documentDirectory,
+        walletId,
+        backend,
+        mnemonic,
+        password,
+        networkTypeToIntString(nettype),
+        restoreHeight.toString(),
+        daemonAddresses.join(','),
+        lwsApiKey
+      ],
+      asJSON(asWalletStatus)
+    )
+    this.startHealthChecks(walletId, daemonAddresses, opts)
+    return status
+  }
+
+  /**
+   * Open or create a view-only wallet. If already open, adopts the new
+   * daemon list and returns current status.
+   * If wallet exists on disk, opens it. Otherwise creates it from the
+   * address and secret view key, so spend keys never reach the device.
+   * @param walletId - Unique identifier for the wallet
+   * @param backend - Backend type ("lws" or "monerod")
+   * @param address - The wallet's primary address
+   * @param secretViewKey - The wallet's secret view key (hex)
+   * @param password - Password used to encrypt the wallet files
+   * @param nettype - Network type (0=mainnet, 1=testnet, 2=stagenet)
+   * @param restoreHeight - Block height to restore from
+   * @param daemonAddress - Daemon address to connect to, or several
+   *                        in order of preference for automatic failover
+   * @param opts - Failover settings, used when there are several daemons
+   * @param opts.lwsApiKey - API key for this wallet's LWS requests to
+   *                         the active daemon. Replaces the current key
+   *                         if already open.
+   * @returns Current wallet status, with `isViewOnly` set
+   */
+  async openViewOnlyWallet(
+    walletId: string,
+    backend: WalletBackend,
+    address: string,
+    secretViewKey: string,
+    password: string,
+    nettype: NetworkType,
+    restoreHeight: number,
+    daemonAddress: string | string[],
+    opts: OpenWalletOptions = {}
+  ): Promise<WalletStatus> {
+    const { lwsApiKey = '' } = opts
+    const daemonAddresses = [daemonAddress].flat()
+    const status = await this.callAndClean(
+      'openViewOnlyWallet',
+      [
+        this.module.documentDirectory,
+        walletId,
+        backend,
+        address,
+        secretViewKey,
+        password,
+        networkTypeToIntString(nettype),
+        restoreHeight.toString(),
+        daemonAddresses.join(','),
+        lwsApiKey
+      ],
+      asJSON(asWalletStatus)
+    )
+    this.startHealthChecks(walletId, daemonAddresses, opts)
+    return status
   }
 
   /**
    * Get the current status of an open wallet.
    * @param walletId - Unique identifier for the wallet
-   * @returns Current wallet status (heights and balances)
+   * @returns Current wallet status (heights, balances, view-only flag,
+   * and connection and sync health)
    */
   async getWalletStatus(walletId: string): Promise<WalletStatus> {
-    const response = await this.module.callMonero('getWalletStatus', [walletId])
-    return JSON.parse(response) as WalletStatus
+    return await this.callAndClean(
+      'getWalletStatus',
+      [walletId],
+      asJSON(asWalletStatus)
+    )
   }
 
   /**
@@ -159,7 +497,104 @@ export class CppBridge {
    * @param walletId - Unique identifier for the wallet to close
    */
   async closeWallet(walletId: string): Promise<void> {
-    await this.module.callMonero('closeWallet', [walletId])
+    this.stopHealthChecks.get(walletId)?.()
+    await this.call('closeWallet', [walletId])
+  }
+
+  /**
+   * Stop background sync, and the network traffic it causes, until
+   * `resumeSync`. Sending and other calls keep working.
+   * @param walletId - Unique identifier for the wallet
+   */
+  async pauseSync(walletId: string): Promise<void> {
+    await this.call('pauseSync', [walletId])
+  }
+
+  /**
+   * Restart background sync after `pauseSync`.
+   * @param walletId - Unique identifier for the wallet
+   */
+  async resumeSync(walletId: string): Promise<void> {
+    await this.call('resumeSync', [walletId])
+  }
+
+  /**
+   * Run one refresh cycle and wait for it to finish, even while background
+   * sync is paused. Suited to OS background-fetch windows.
+   * @param walletId - Unique identifier for the wallet
+   * @returns Wallet status after the refresh
+   * @throws MoneroLwsfError with code `DAEMON_UNREACHABLE` if the daemon is
+   * unreachable or still syncing, or the refresh fails
+   */
+  async refreshNow(walletId: string): Promise<WalletStatus> {
+    return await this.callAndClean(
+      'refreshNow',
+      [walletId],
+      asJSON(asWalletStatus)
+    )
+  }
+
+  /**
+   * Set how often background sync polls for new blocks.
+   * @param walletId - Unique identifier for the wallet
+   * @param intervalMs - Polling interval in milliseconds
+   */
+  async setRefreshInterval(
+    walletId: string,
+    intervalMs: number
+  ): Promise<void> {
+    await this.call('setRefreshInterval', [walletId, intervalMs.toString()])
+  }
+
+  /**
+   * Forget the synced chain state and scan again in the background.
+   * Keys and transaction notes are kept, so this replaces deleting
+   * and restoring the wallet.
+   * @param walletId - Unique identifier for the wallet
+   * @param opts.fromHeight - Height to scan from (default the restore height)
+   */
+  async rescanBlockchain(
+    walletId: string,
+    opts: RescanOptions = {}
+  ): Promise<void> {
+    const { fromHeight } = opts
+    await this.call('rescanBlockchain', [
+      walletId,
+      fromHeight == null ? '' : fromHeight.toString()
+    ])
+  }
+
+  /**
+   * Switch an open wallet to a different daemon, without reopening it.
+   * Automatic failover may still move away from it later, if it
+   * becomes unhealthy.
+   * @param walletId - Unique identifier for the wallet
+   * @param daemonAddress - Daemon address to connect to
+   */
+  async setDaemon(walletId: string, daemonAddress: string): Promise<void> {
+    await this.call('setDaemon', [walletId, daemonAddress])
+  }
+
+  /**
+   * Probe the wallet's daemons, and fail over if the active one is
+   * unreachable or lags behind. Wallets opened with several daemons do
+   * this periodically, but it can also be triggered manually.
+   * Nodes are probed in parallel with a 5 second timeout, during which
+   * other native calls wait. Probes never include the wallet's view key
+   * or API key, and go through Nym while it is enabled.
+   * @param walletId - Unique identifier for the wallet
+   * @param maxHeightLag - Blocks behind the best node before failing over
+   * @returns The active daemon, whether it changed, and each node's height
+   */
+  async checkDaemonHealth(
+    walletId: string,
+    maxHeightLag: number = 10
+  ): Promise<DaemonHealth> {
+    return await this.callAndClean(
+      'checkDaemonHealth',
+      [walletId, maxHeightLag.toString()],
+      asJSON(asDaemonHealth)
+    )
   }
 
   /**
@@ -168,13 +603,103 @@ export class CppBridge {
    * @param backend - Backend type ('lws' or 'monerod')
    */
   async deleteWallet(walletId: string, backend: WalletBackend): Promise<void> {
-    await this.module.callMonero('deleteWallet', [
+    this.stopHealthChecks.get(walletId)?.()
+    await this.call('deleteWallet', [
       this.module.documentDirectory,
       walletId,
       backend
     ])
   }
 
+  /**
+   * Change the password that encrypts an open wallet's files.
+   * @param walletId - Unique identifier for the wallet
+   * @param oldPassword - The current password
+   * @param newPassword - The password to use from now on
+   * @throws MoneroLwsfError with code `WRONG_PASSWORD` if `oldPassword` is wrong
+   */
+  async changeWalletPassword(
+    walletId: string,
+    oldPassword: string,
+    newPassword: string
+  ): Promise<void> {
+    await this.call('changeWalletPassword', [
+      walletId,
+      oldPassword,
+      newPassword
+    ])
+  }
+
+  /**
+   * Check a wallet password without opening or syncing the wallet.
+   * @param wallet - An open walletId, a closed walletId with its backend,
+   * or an absolute path to a wallet file
+   * @param password - The password to check
+   * @param backend - Backend type, needed for closed wallets by id
+   * @returns true if the password decrypts the wallet's keys
+   * @throws MoneroLwsfError with code `WALLET_NOT_FOUND` if there is no such wallet
+   */
+  async verifyWalletPassword(
+    wallet: string,
+    password: string,
+    backend?: WalletBackend
+  ): Promise<boolean> {
+    return await this.callAndClean(
+      'verifyWalletPassword',
+      [this.module.documentDirectory, wallet, backend ?? '', password],
+      asBooleanString
+    )
+  }
+
+  /**
+   * Export an open wallet as one encrypted, versioned base64 blob, for
+   * moving it between devices. The blob holds the keys, the synced cache
+   * (including transaction notes), and the wallet's metadata.
+   *
+   * The keys inside stay encrypted with the wallet password as well,
+   * so the backup password alone cannot open the wallet.
+   *
+   * @param walletId - Unique identifier for the wallet
+   * @param backupPassword - Password for encrypting the blob
+   * @returns Base64 backup blob
+   */
+  async exportWalletBackup(
+    walletId: string,
+    backupPassword: string
+  ): Promise<string> {
+    return await this.callAndClean(
+      'exportWalletBackup',
+      [walletId, backupPassword],
+      asString
+    )
+  }
+
+  /**
+   * Restore wallet files from an `exportWalletBackup` blob.
+   * This only writes files; pass the returned backend and nettype, along
+   * with the original wallet password, to `openWallet` to start using it.
+   * Thanks to the cache, the wallet resumes syncing where the backup left off.
+   *
+   * @param walletId - Unique identifier for the restored wallet
+   * @param blob - Base64 blob from exportWalletBackup
+   * @param backupPassword - Password the blob was encrypted with
+   * @returns The restored wallet's metadata
+   * @throws MoneroLwsfError with code `WRONG_PASSWORD` if the backup
+   * password is wrong, `INVALID_ARGUMENT` if the blob is malformed, or
+   * `WALLET_ERROR` if the wallet already exists. Nothing is written then.
+   */
+  async importWalletBackup(
+    walletId: string,
+    blob: string,
+    backupPassword: string
+  ): Promise<ImportedWalletBackup> {
+    return await this.callAndClean(
+      'importWalletBackup',
+      [this.module.documentDirectory, walletId, blob, backupPassword],
+      asJSON(asImportedWalletBackup)
+    )
+  }
+
   /**
    * Get all transactions with pagination.
    * @param walletId - Unique identifier for the wallet
@@ -189,13 +714,255 @@ export class CppBridge {
     pageSize: number,
     sort: 'asc' | 'desc' = 'asc'
   ): Promise<TransactionsPage> {
-    const response = await this.module.callMonero('getAllTransactions', [
+    return await this.callAndClean(
+      'getAllTransactions',
+      [walletId, page.toString(), pageSize.toString(), sort],
+      asJSON(asTransactionsPage)
+    )
+  }
+
+  /**
+   * Get the transactions added or changed since an earlier call,
+   * for mirroring history into another store.
+   *
+   * Changes include new transactions, pending transactions confirming or
+   * failing, and confirmations increasing up to the unlock window (10).
+   * Tokens stay valid after the wallet is closed and reopened, since the
+   * feed is saved with the wallet's files. An empty or unrecognized token,
+   * such as one from before a restore, returns the full history with
+   * `reset` set. So does a token so old that the feed has forgotten some
+   * of the removals since, as it only keeps the latest 256. A few changes
+   * may repeat after the app is killed.
+   *
+   * @param walletId - Unique identifier for the wallet
+   * @param sinceToken - `nextToken` from the previous call, or '' to start
+   * @returns Changed transactions, removed txids, and the next token
+   */
+  async getTransactionChanges(
+    walletId: string,
+    sinceToken: string = ''
+  ): Promise<TransactionChanges> {
+    return await this.callAndClean(
+      'getTransactionChanges',
+      [walletId, sinceToken],
+      asJSON(asTransactionChanges)
+    )
+  }
+
+  /**
+   * Query transactions matching a filter, with pagination.
+   * All filters are optional, and combine with AND.
+   * @param walletId - Unique identifier for the wallet
+   * @param query - Filters, page, page size, and sort order
+   * @returns Paginated transactions, where totalCount counts every match
+   */
+  async queryTransactions(
+    walletId: string,
+    query: TransactionQuery = {}
+  ): Promise<TransactionsPage> {
+    const { page = 0, pageSize = 20, sort = 'asc' } = query
+    const optional = (value?: number | string): string =>
+      value == null ? '' : value.toString()
+
+    return await this.callAndClean(
+      'queryTransactions',
+      [
+        walletId,
+        optional(query.direction),
+        optional(query.accountIndex),
+        optional(query.subaddrIndex),
+        optional(query.minHeight),
+        optional(query.maxHeight),
+        optional(query.minTimestamp),
+        optional(query.maxTimestamp),
+        (query.states ?? []).join(','),
+        query.paymentId ?? '',
+        optional(query.minAmount),
+        query.search ?? '',
+        page.toString(),
+        pageSize.toString(),
+        sort
+      ],
+      asJSON(asTransactionsPage)
+    )
+  }
+
+  /**
+   * Attach a note to a transaction, replacing any earlier note.
+   * Notes are saved in the wallet cache, and appear as the transaction's
+   * `description` in the history.
+   * @param walletId - Unique identifier for the wallet
+   * @param txid - Transaction hash
+   * @param note - Note text, or '' to clear it
+   */
+  async setTransactionNote(
+    walletId: string,
+    txid: string,
+    note: string
+  ): Promise<void> {
+    await this.call('setTransactionNote', [walletId, txid, note])
+  }
+
+  /**
+   * Read the notes attached to some transactions.
+   * @param walletId - Unique identifier for the wallet
+   * @param txids - Transaction hashes
+   * @returns Map from txid to note, with '' for transactions without one
+   */
+  async getTransactionNotes(
+    walletId: string,
+    txids: string[]
+  ): Promise<Record<string, string>> {
+    if (txids.length === 0) return {}
+    return await this.callAndClean(
+      'getTransactionNotes',
+      [walletId, txids.join(',')],
+      asJSON(asObject(asString))
+    )
+  }
+
+  /**
+   * List the wallet's subaddress accounts with their balances.
+   * @param walletId - Unique identifier for the wallet
+   * @returns Accounts in index order
+   */
+  async getAccounts(walletId: string): Promise<SubaddressAccount[]> {
+    return await this.callAndClean(
+      'getAccounts',
+      [walletId],
+      asJSON(asArray(asSubaddressAccount))
+    )
+  }
+
+  /**
+   * Create a new subaddress account.
+   * @param walletId - Unique identifier for the wallet
+   * @param label - Label for the new account
+   * @returns The new account
+   */
+  async createAccount(
+    walletId: string,
+    label: string = ''
+  ): Promise<SubaddressAccount> {
+    return await this.callAndClean(
+      'createAccount',
+      [walletId, label],
+      asJSON(asSubaddressAccount)
+    )
+  }
+
+  /**
+   * List the subaddresses within an account.
+   * @param walletId - Unique identifier for the wallet
+   * @param accountIndex - Account to list
+   * @returns Subaddresses in index order, starting with the account's primary address
+   */
+  async getSubaddresses(
+    walletId: string,
+    accountIndex: number
+  ): Promise<Subaddress[]> {
+    return await this.callAndClean(
+      'getSubaddresses',
+      [walletId, accountIndex.toString()],
+      asJSON(asArray(asSubaddress))
+    )
+  }
+
+  /**
+   * Create a new subaddress within an account, such as a fresh
+   * receive address for an incoming payment.
+   * @param walletId - Unique identifier for the wallet
+   * @param accountIndex - Account to add the subaddress to
+   * @param label - Label for the new subaddress
+   * @returns The new subaddress
+   */
+  async createSubaddress(
+    walletId: string,
+    accountIndex: number,
+    label: string = ''
+  ): Promise<Subaddress> {
+    return await this.callAndClean(
+      'createSubaddress',
+      [walletId, accountIndex.toString(), label],
+      asJSON(asSubaddress)
+    )
+  }
+
+  /**
+   * Set the label of a subaddress. Index 0 labels the account itself.
+   * @param walletId - Unique identifier for the wallet
+   * @param accountIndex - Account containing the subaddress
+   * @param addressIndex - Subaddress index within the account
+   * @param label - The new label
+   */
+  async setSubaddressLabel(
+    walletId: string,
+    accountIndex: number,
+    addressIndex: number,
+    label: string
+  ): Promise<void> {
+    await this.call('setSubaddressLabel', [
       walletId,
-      page.toString(),
-      pageSize.toString(),
-      sort
+      accountIndex.toString(),
+      addressIndex.toString(),
+      label
     ])
-    return JSON.parse(response) as TransactionsPage
+  }
+
+  /**
+   * Estimate the fee for sending to the given recipients, without
+   * selecting inputs or signing anything. Cheap enough to call on
+   * every keystroke.
+   *
+   * Like wallet2, this assumes a single input, so the real fee may be
+   * higher if the wallet must combine several outputs. The weight is
+   * approximate too: it prices a typical transaction of that shape, not
+   * the one createTransaction will build. Use getMaxSpendable or build
+   * the transaction for exact numbers.
+   *
+   * @param walletId - Unique identifier for the wallet
+   * @param recipients - Array of recipients with addresses and amounts (atomic units)
+   * @param priority - Transaction priority (0=Default, 1=Low, 2=Medium, 3=High)
+   * @returns Estimated fee (atomic units) and approximate transaction weight (bytes)
+   */
+  async estimateFee(
+    walletId: string,
+    recipients: Recipient[],
+    priority: TransactionPriority
+  ): Promise<FeeEstimate> {
+    const addresses = recipients.map(r => r.address).join(',')
+    const amounts = recipients.map(r => r.amount).join(',')
+
+    return await this.callAndClean(
+      'estimateFee',
+      [walletId, addresses, amounts, priority.toString()],
+      asJSON(asFeeEstimate)
+    )
+  }
+
+  /**
+   * Compute the exact amount a sweep of the account to `address` would
+   * send after fees. The sweep is built in memory but never saved or
+   * returned, so nothing can be broadcast from it.
+   *
+   * @param walletId - Unique identifier for the wallet
+   * @param address - Destination address
+   * @param priority - Transaction priority (0=Default, 1=Low, 2=Medium, 3=High)
+   * @param accountIndex - Account to sweep
+   * @returns Amount sent and fee (atomic units)
+   * @throws MoneroLwsfError with code `VIEW_ONLY_WALLET` on view-only wallets
+   */
+  async getMaxSpendable(
+    walletId: string,
+    address: string,
+    priority: TransactionPriority,
+    accountIndex: number = 0
+  ): Promise<MaxSpendable> {
+    return await this.callAndClean(
+      'getMaxSpendable',
+      [walletId, address, priority.toString(), accountIndex.toString()],
+      asJSON(asMaxSpendable)
+    )
   }
 
   /**
@@ -204,43 +971,544 @@ export class CppBridge {
    * @param walletId - Unique identifier for the wallet
    * @param recipients - Array of recipients with addresses and amounts (atomic units)
    * @param priority - Transaction priority (0=Default, 1=Low, 2=Medium, 3=High)
+   * @param accountIndex - Account to spend from
+   * @param keyImages - Only spend these outputs (default automatic selection).
+   *                    Other outputs stay frozen while the transaction is built.
    * @returns SignedTransaction with txid, signedTxHex, and fee (atomic units)
+   * @throws MoneroLwsfError with code `VIEW_ONLY_WALLET` on view-only wallets,
+   *   or `INVALID_ARGUMENT` if a key image is unknown, spent, or frozen
+   *
+   * A single recipient with amount "0" sweeps the account.
+   * This is deprecated; use `sweepAll` instead.
    */
   async createTransaction(
     walletId: string,
     recipients: Recipient[],
+    priority: TransactionPriority,
+    accountIndex: number = 0,
+    keyImages: string[] = []
+  ): Promise<SignedTransaction> {
+    const addresses = recipients.map(r => r.address).join(',')
+    const amounts = recipients.map(r => r.amount).join(',')
+
+    return await this.callAndClean(
+      'createTransaction',
+      [
+        walletId,
+        addresses,
+        amounts,
+        priority.toString(),
+        accountIndex.toString(),
+        keyImages.join(','),
+        this.module.documentDirectory
+      ],
+      asJSON(asSignedTransaction)
+    )
+  }
+
+  /**
+   * List the wallet's outputs, for coin control.
+   * @param walletId - Unique identifier for the wallet
+   * @param query - Optional filters, which combine with AND
+   * @returns Matching outputs
+   */
+  async listOutputs(
+    walletId: string,
+    query: OutputQuery = {}
+  ): Promise<OutputInfo[]> {
+    const optional = (value?: boolean | number | string): string =>
+      value == null ? '' : value.toString()
+
+    return await this.callAndClean(
+      'listOutputs',
+      [
+        walletId,
+        optional(query.accountIndex),
+        optional(query.spent),
+        optional(query.frozen),
+        optional(query.minAmount)
+      ],
+      asJSON(asArray(asOutputInfo))
+    )
+  }
+
+  /**
+   * Freeze an output, so transactions never spend it until it is thawed.
+   * @param walletId - Unique identifier for the wallet
+   * @param keyImage - Key image of the output
+   */
+  async freezeOutput(walletId: string, keyImage: string): Promise<void> {
+    await this.call('freezeOutput', [walletId, keyImage])
+  }
+
+  /**
+   * Thaw a frozen output, so transactions may spend it again.
+   * @param walletId - Unique identifier for the wallet
+   * @param keyImage - Key image of the output
+   */
+  async thawOutput(walletId: string, keyImage: string): Promise<void> {
+    await this.call('thawOutput', [walletId, keyImage])
+  }
+
+  /**
+   * Export the wallet's outputs for an offline signing wallet.
+   * Run this on the view-only wallet.
+   * @param walletId - Unique identifier for the wallet
+   * @param all - Export every output, instead of only new ones
+   * @returns Hex string for importOutputs
+   */
+  async exportOutputs(walletId: string, all: boolean = false): Promise<string> {
+    return await this.callAndClean(
+      'exportOutputs',
+      [walletId, all.toString(), this.module.documentDirectory],
+      asString
+    )
+  }
+
+  /**
+   * Import outputs from a view-only wallet's exportOutputs.
+   * Run this on the offline wallet that holds the spend key.
+   * @param walletId - Unique identifier for the wallet
+   * @param outputsHex - Hex string from exportOutputs
+   * @returns Number of outputs the wallet knows, and its balances
+   */
+  async importOutputs(
+    walletId: string,
+    outputsHex: string
+  ): Promise<ImportResult> {
+    return await this.callAndClean(
+      'importOutputs',
+      [walletId, outputsHex, this.module.documentDirectory],
+      asJSON(asImportResult)
+    )
+  }
+
+  /**
+   * Export signed key images for a view-only wallet.
+   * Run this on the offline wallet that holds the spend key.
+   * @param walletId - Unique identifier for the wallet
+   * @param all - Export every key image, instead of only new ones
+   * @returns Hex string for importKeyImages
+   * @throws MoneroLwsfError with code `VIEW_ONLY_WALLET` on view-only wallets
+   */
+  async exportKeyImages(
+    walletId: string,
+    all: boolean = false
+  ): Promise<string> {
+    return await this.callAndClean(
+      'exportKeyImages',
+      [walletId, all.toString(), this.module.documentDirectory],
+      asString
+    )
+  }
+
+  /**
+   * Import key images from an offline wallet's exportKeyImages, so the
+   * view-only wallet can tell which outputs are spent.
+   * Needs a daemon connection.
+   * @param walletId - Unique identifier for the wallet
+   * @param keyImagesHex - Hex string from exportKeyImages
+   * @returns Number of outputs with known key images, and the updated balances
+   */
+  async importKeyImages(
+    walletId: string,
+    keyImagesHex: string
+  ): Promise<ImportResult> {
+    return await this.callAndClean(
+      'importKeyImages',
+      [walletId, keyImagesHex, this.module.documentDirectory],
+      asJSON(asImportResult)
+    )
+  }
+
+  /**
+   * Sweep an entire account to one address.
+   * The transaction is created and signed but not broadcast yet.
+   *
+   * Large sweeps may need several transactions. They all travel in the
+   * same `signedTxHex`, and `txid` is the first of them.
+   *
+   * @param walletId - Unique identifier for the wallet
+   * @param address - Destination address
+   * @param priority - Transaction priority (0=Default, 1=Low, 2=Medium, 3=High)
+   * @param opts.accountIndex - Account to sweep
+   * @param opts.subaddrIndices - Only sweep these subaddresses (default all)
+   * @returns SignedTransaction with txid, signedTxHex, and fee (atomic units)
+   * @throws MoneroLwsfError with code `VIEW_ONLY_WALLET` on view-only wallets
+   */
+  async sweepAll(
+    walletId: string,
+    address: string,
+    priority: TransactionPriority,
+    opts: SweepAllOptions = {}
+  ): Promise<SignedTransaction> {
+    const { accountIndex = 0, subaddrIndices = [] } = opts
+
+    return await this.callAndClean(
+      'sweepAll',
+      [
+        walletId,
+        address,
+        priority.toString(),
+        accountIndex.toString(),
+        subaddrIndices.join(','),
+        this.module.documentDirectory
+      ],
+      asJSON(asSignedTransaction)
+    )
+  }
+
+  /**
+   * Sweep unmixable dust outputs back into the wallet.
+   * The transaction is created and signed but not broadcast yet.
+   * @param walletId - Unique identifier for the wallet
+   * @returns SignedTransaction with txid, signedTxHex, and fee (atomic units)
+   * @throws MoneroLwsfError with code `VIEW_ONLY_WALLET` on view-only wallets
+   */
+  async sweepUnmixable(walletId: string): Promise<SignedTransaction> {
+    return await this.callAndClean(
+      'sweepUnmixable',
+      [walletId, this.module.documentDirectory],
+      asJSON(asSignedTransaction)
+    )
+  }
+
+  /**
+   * Alias for `sweepUnmixable`.
+   */
+  async sweepDust(walletId: string): Promise<SignedTransaction> {
+    return await this.sweepUnmixable(walletId)
+  }
+
+  /**
+   * Sweep a single output to one address.
+   * The transaction is created and signed but not broadcast yet.
+   * @param walletId - Unique identifier for the wallet
+   * @param keyImage - Key image of the output to spend (hex)
+   * @param address - Destination address
+   * @param priority - Transaction priority (0=Default, 1=Low, 2=Medium, 3=High)
+   * @returns SignedTransaction with txid, signedTxHex, and fee (atomic units)
+   * @throws MoneroLwsfError with code `INVALID_ARGUMENT` if the wallet has
+   * no unspent output with this key image
+   */
+  async sweepOutput(
+    walletId: string,
+    keyImage: string,
+    address: string,
     priority: TransactionPriority
   ): Promise<SignedTransaction> {
+    return await this.callAndClean(
+      'sweepOutput',
+      [
+        walletId,
+        keyImage,
+        address,
+        priority.toString(),
+        this.module.documentDirectory
+      ],
+      asJSON(asSignedTransaction)
+    )
+  }
+
+  /**
+   * Create an unsigned transaction on a view-only wallet, for signing on an
+   * offline device with `signUnsignedTransaction`. The view-only wallet
+   * must have imported key images from that device first.
+   * @param walletId - Unique identifier for the view-only wallet
+   * @param recipients - Array of recipients with addresses and amounts (atomic units)
+   * @param priority - Transaction priority (0=Default, 1=Low, 2=Medium, 3=High)
+   * @param accountIndex - Account to spend from
+   * @param keyImages - Only spend these outputs (default automatic selection).
+   *                    Other outputs stay frozen while the transaction is built.
+   * @returns The unsigned transaction as hex, with its amount and fee
+   * @throws MoneroLwsfError with code `INVALID_ARGUMENT` on wallets with a spend key,
+   *   or if a key image is unknown, spent, or frozen
+   */
+  async createUnsignedTransaction(
+    walletId: string,
+    recipients: Recipient[],
+    priority: TransactionPriority,
+    accountIndex: number = 0,
+    keyImages: string[] = []
+  ): Promise<UnsignedTransaction> {
     const addresses = recipients.map(r => r.address).join(',')
     const amounts = recipients.map(r => r.amount).join(',')
 
-    const response = await this.module.callMonero('createTransaction', [
-      walletId,
-      addresses,
-      amounts,
-      priority.toString(),
-      this.module.documentDirectory
-    ])
-    return JSON.parse(response) as SignedTransaction
+    return await this.callAndClean(
+      'createUnsignedTransaction',
+      [
+        walletId,
+        addresses,
+        amounts,
+        priority.toString(),
+        accountIndex.toString(),
+        keyImages.join(','),
+        this.module.documentDirectory
+      ],
+      asJSON(asUnsignedTransaction)
+    )
+  }
+
+  /**
+   * Summarize an unsigned transaction, so the user can confirm it
+   * before signing.
+   * @param walletId - Unique identifier for the wallet that will sign it
+   * @param unsignedTxHex - Hex string from createUnsignedTransaction
+   * @returns Transaction count, totals, and recipient addresses
+   */
+  async describeUnsignedTransaction(
+    walletId: string,
+    unsignedTxHex: string
+  ): Promise<UnsignedTransactionDescription> {
+    return await this.callAndClean(
+      'describeUnsignedTransaction',
+      [walletId, unsignedTxHex, this.module.documentDirectory],
+      asJSON(asUnsignedTransactionDescription)
+    )
+  }
+
+  /**
+   * Sign an unsigned transaction. This works without a network connection.
+   * Broadcast the result from the view-only wallet with `broadcastTransaction`.
+   * @param walletId - Unique identifier for the wallet with the spend key
+   * @param unsignedTxHex - Hex string from createUnsignedTransaction
+   * @returns The signed transaction as hex, with its fee
+   * @throws MoneroLwsfError with code `VIEW_ONLY_WALLET` on view-only wallets
+   */
+  async signUnsignedTransaction(
+    walletId: string,
+    unsignedTxHex: string
+  ): Promise<OfflineSignedTransaction> {
+    return await this.callAndClean(
+      'signUnsignedTransaction',
+      [walletId, unsignedTxHex, this.module.documentDirectory],
+      asJSON(asOfflineSignedTransaction)
+    )
   }
 
   /**
    * Broadcast a previously created transaction.
    * @param walletId - Unique identifier for the wallet
-   * @param signedTx - The signed transaction string from createTransaction
+   * @param signedTx - The signed transaction hex from createTransaction
+   * or signUnsignedTransaction
    * @returns The transaction hash
-   * @throws Error if broadcast fails
+   * @throws MoneroLwsfError with code `BROADCAST_REJECTED` if broadcast fails
    */
   async broadcastTransaction(
     walletId: string,
     signedTx: string
   ): Promise<string> {
-    const response = await this.module.callMonero('broadcastTransaction', [
-      walletId,
-      signedTx,
-      this.module.documentDirectory
-    ])
-    return response
+    return await this.callAndClean(
+      'broadcastTransaction',
+      [walletId, signedTx, this.module.documentDirectory],
+      asString
+    )
+  }
+
+  /**
+   * Prove that a transaction paid an address. For outgoing transactions this
+   * uses the tx key; for incoming ones, the wallet's view key.
+   * @param walletId - Unique identifier for the wallet
+   * @param txid - Transaction hash
+   * @param address - The recipient address
+   * @param message - Optional message to bind into the signature
+   * @returns Signature string for checkTxProof
+   */
+  async getTxProof(
+    walletId: string,
+    txid: string,
+    address: string,
+    message: string = ''
+  ): Promise<string> {
+    return await this.callAndClean(
+      'getTxProof',
+      [walletId, txid, address, message],
+      asString
+    )
+  }
+
+  /**
+   * Check a signature from getTxProof. Needs a daemon connection.
+   * @param walletId - Any open wallet on the transaction's network
+   * @param txid - Transaction hash
+   * @param address - The recipient address
+   * @param message - The message the proof was made with
+   * @param signature - Signature from getTxProof
+   * @returns Whether the signature is valid, plus the amount received
+   */
+  async checkTxProof(
+    walletId: string,
+    txid: string,
+    address: string,
+    message: string,
+    signature: string
+  ): Promise<TxProofCheck> {
+    return await this.callAndClean(
+      'checkTxProof',
+      [walletId, txid, address, message, signature],
+      asJSON(asTxProofCheck)
+    )
+  }
+
+  /**
+   * Check how much a transaction paid an address, using the secret
+   * `txKey` from getAllTransactions. Needs a daemon connection.
+   * @param walletId - Any open wallet on the transaction's network
+   * @param txid - Transaction hash
+   * @param txKey - Secret transaction key
+   * @param address - The recipient address
+   * @returns The amount received, with mempool and confirmation state
+   */
+  async checkTxKey(
+    walletId: string,
+    txid: string,
+    txKey: string,
+    address: string
+  ): Promise<TxKeyCheck> {
+    return await this.callAndClean(
+      'checkTxKey',
+      [walletId, txid, txKey, address],
+      asJSON(asTxKeyCheck)
+    )
+  }
+
+  /**
+   * Prove that this wallet sent a transaction.
+   * @param walletId - Unique identifier for the wallet
+   * @param txid - Transaction hash of an outgoing transaction
+   * @param message - Optional message to bind into the signature
+   * @returns Signature string for checkSpendProof
+   */
+  async getSpendProof(
+    walletId: string,
+    txid: string,
+    message: string = ''
+  ): Promise<string> {
+    return await this.callAndClean(
+      'getSpendProof',
+      [walletId, txid, message],
+      asString
+    )
+  }
+
+  /**
+   * Check a signature from getSpendProof. Needs a daemon connection.
+   * @param walletId - Any open wallet on the transaction's network
+   * @param txid - Transaction hash
+   * @param message - The message the proof was made with
+   * @param signature - Signature from getSpendProof
+   * @returns True if the signature is valid
+   */
+  async checkSpendProof(
+    walletId: string,
+    txid: string,
+    message: string,
+    signature: string
+  ): Promise<boolean> {
+    return await this.callAndClean(
+      'checkSpendProof',
+      [walletId, txid, message, signature],
+      asBooleanString
+    )
+  }
+
+  /**
+   * Prove that an account holds unspent funds.
+   * @param walletId - Unique identifier for the wallet
+   * @param message - Optional message to bind into the signature
+   * @param opts.accountIndex - Account to prove
+   * @param opts.amount - Minimum amount to prove (default all funds)
+   * @returns Signature string for checkReserveProof
+   * @throws MoneroLwsfError with code `VIEW_ONLY_WALLET` on view-only wallets
+   */
+  async getReserveProof(
+    walletId: string,
+    message: string = '',
+    opts: ReserveProofOptions = {}
+  ): Promise<string> {
+    const { accountIndex = 0, amount = '' } = opts
+
+    return await this.callAndClean(
+      'getReserveProof',
+      [walletId, accountIndex.toString(), amount, message],
+      asString
+    )
+  }
+
+  /**
+   * Check a signature from getReserveProof. Needs a daemon connection.
+   * @param walletId - Any open wallet on the address's network
+   * @param address - Primary address of the proving wallet
+   * @param message - The message the proof was made with
+   * @param signature - Signature from getReserveProof
+   * @returns Whether the signature is valid, and the amounts it covers
+   */
+  async checkReserveProof(
+    walletId: string,
+    address: string,
+    message: string,
+    signature: string
+  ): Promise<ReserveProofCheck> {
+    return await this.callAndClean(
+      'checkReserveProof',
+      [walletId, address, message, signature],
+      asJSON(asReserveProofCheck)
+    )
+  }
+
+  /**
+   * Sign a message to prove ownership of one of the wallet's addresses.
+   * @param walletId - Unique identifier for the wallet
+   * @param message - The message to sign
+   * @param opts.keyType - Sign with the 'spend' key (default) or 'view' key
+   * @param opts.accountIndex - Account of the signing address
+   * @param opts.subaddrIndex - Subaddress of the signing address
+   * @returns Signature string for verifyMessage
+   * @throws MoneroLwsfError with code `VIEW_ONLY_WALLET` when signing with
+   * the spend key of a view-only wallet
+   */
+  async signMessage(
+    walletId: string,
+    message: string,
+    opts: SignMessageOptions = {}
+  ): Promise<string> {
+    const { keyType = 'spend', accountIndex = 0, subaddrIndex = 0 } = opts
+
+    return await this.callAndClean(
+      'signMessage',
+      [
+        walletId,
+        message,
+        keyType,
+        accountIndex.toString(),
+        subaddrIndex.toString()
+      ],
+      asString
+    )
+  }
+
+  /**
+   * Verify a message signature from signMessage.
+   * Does not need an open wallet.
+   * @param message - The signed message
+   * @param address - The address that supposedly signed it
+   * @param signature - Signature string
+   * @param nettype - Network type of the address
+   * @returns Whether the signature is valid, and which key made it
+   * @throws MoneroLwsfError with code `INVALID_ADDRESS` if the address
+   * is not valid on this network
+   */
+  async verifyMessage(
+    message: string,
+    address: string,
+    signature: string,
+    nettype: NetworkType
+  ): Promise<MessageVerification> {
+    return await this.callAndClean(
+      'verifyMessage',
+      [message, address, signature, networkTypeToIntString(nettype)],
+      asJSON(asMessageVerification)
+    )
   }
 
   /**
@@ -248,18 +1516,14 @@ export class CppBridge {
    * @param uri - The monero: URI to parse
    * @param nettype - Network type (0=mainnet, 1=testnet, 2=stagenet)
    * @returns Parsed URI components
-   * @throws Error if URI is invalid
+   * @throws MoneroLwsfError with code `INVALID_URI` if URI is invalid
    */
   async parseUri(uri: string, nettype: NetworkType): Promise<ParsedUri> {
-    const response = await this.module.callMonero('parseUri', [
-      uri,
-      networkTypeToIntString(nettype)
-    ])
-    const parsed = JSON.parse(response)
-    if (typeof parsed === 'object' && 'error' in parsed) {
-      throw new Error(parsed.error)
-    }
-    return parsed as ParsedUri
+    return await this.callAndClean(
+      'parseUri',
+      [uri, networkTypeToIntString(nettype)],
+      asJSON(asParsedUri)
+    )
   }
 
   /**
@@ -267,48 +1531,139 @@ export class CppBridge {
    * @param params - URI components (address, amount, etc.)
    * @param nettype - Network type (0=mainnet, 1=testnet, 2=stagenet)
    * @returns The encoded monero: URI
-   * @throws Error if parameters are invalid
+   * @throws MoneroLwsfError if parameters are invalid
    */
   async encodeUri(
     params: EncodeUriParams,
     nettype: NetworkType
   ): Promise<string> {
-    const response = await this.module.callMonero('encodeUri', [
-      params.address,
-      params.paymentId ?? '',
-      params.amount,
-      params.txDescription ?? '',
-      params.recipientName ?? '',
-      networkTypeToIntString(nettype)
-    ])
-    // Check for error response (JSON object with error field)
-    if (response.startsWith('{')) {
-      const parsed = JSON.parse(response)
-      if (typeof parsed === 'object' && 'error' in parsed) {
-        throw new Error(parsed.error)
-      }
-    }
-    return response
+    return await this.callAndClean(
+      'encodeUri',
+      [
+        params.address,
+        params.paymentId ?? '',
+        params.amount,
+        params.txDescription ?? '',
+        params.recipientName ?? '',
+        networkTypeToIntString(nettype)
+      ],
+      asString
+    )
   }
 
   /**
    * Set the API key for LWS (Light Wallet Server) requests.
    * Once set, the key will be included in all subsequent LWS HTTP POST requests
-   * as an "api_key" field in the JSON body.
+   * as an "api_key" field in the JSON body, except for wallets opened with
+   * their own `lwsApiKey`.
    * @param apiKey - The API key to include in LWS requests
    */
   async setLwsApiKey(apiKey: string): Promise<void> {
-    await this.module.callMonero('setLwsApiKey', [apiKey])
+    await this.call('setLwsApiKey', [apiKey])
+  }
+
+  /**
+   * Set the API key for one LWS wallet's requests to one server, in place
+   * of the global `setLwsApiKey` key. The wallet's other servers never
+   * see it, so give each server in a failover list its own key.
+   * @param walletId - Unique identifier for the wallet
+   * @param apiKey - The API key, or '' to go back to the global key
+   * @param daemonAddress - The server the key belongs to, defaulting
+   *                        to the wallet's active daemon
+   */
+  async setWalletLwsApiKey(
+    walletId: string,
+    apiKey: string,
+    daemonAddress: string = ''
+  ): Promise<void> {
+    await this.call('setWalletLwsApiKey', [walletId, apiKey, daemonAddress])
+  }
+
+  /**
+   * Log in to the LWS server of an open LWS wallet.
+   * With `createAccount`, servers that need admin approval queue the
+   * account instead, and report `isPending` until an admin decides.
+   * The wallet remembers the queued request, since the LWS REST API
+   * cannot report it, and lwsAccountStatus then reports 'pending'.
+   * Asking again while queued reports `isPending`, since servers answer
+   * that with HTTP 403.
+   * @param walletId - Unique identifier for the wallet
+   * @param createAccount - Ask the server to start tracking a new account
+   * @returns Whether the account is new or pending, and its scan start height
+   * @throws MoneroLwsfError with code `LWS_ERROR` if the server refuses the login,
+   *   or `DAEMON_UNREACHABLE` if it does not answer
+   */
+  async lwsLogin(
+    walletId: string,
+    createAccount: boolean
+  ): Promise<LwsLoginResult> {
+    return await this.callAndClean(
+      'lwsLogin',
+      [walletId, createAccount ? 'true' : 'false'],
+      asJSON(asLwsLoginResult)
+    )
+  }
+
+  /**
+   * Ask the LWS server to rescan an account from an earlier height.
+   * Some servers require paying `importFee` to `paymentAddress` first;
+   * call this again to check on the request.
+   * @param walletId - Unique identifier for the wallet
+   * @param fromHeight - Height to scan from (default the server's choice)
+   * @returns The import fee and the request's status
+   * @throws MoneroLwsfError with code `LWS_ERROR` if the server refuses the request
+   */
+  async lwsRequestImport(
+    walletId: string,
+    fromHeight?: number
+  ): Promise<LwsImportRequest> {
+    return await this.callAndClean(
+      'lwsRequestImport',
+      [walletId, fromHeight == null ? '' : fromHeight.toString()],
+      asJSON(asLwsImportRequest)
+    )
+  }
+
+  /**
+   * Check whether the LWS server is tracking an account.
+   * The LWS REST API does not tell pending, rejected, hidden, and unknown
+   * accounts apart, so accounts with a creation request queued through
+   * lwsLogin report 'pending', and the rest report 'unknown'.
+   * There are no 'rejected' or 'hidden' states for the same reason:
+   * a rejected request keeps reporting 'pending' until
+   * `lwsForgetAccountRequest`.
+   * @param walletId - Unique identifier for the wallet
+   * @returns The account state and scan heights
+   */
+  async lwsAccountStatus(walletId: string): Promise<LwsAccountStatus> {
+    return await this.callAndClean(
+      'lwsAccountStatus',
+      [walletId],
+      asJSON(asLwsAccountStatus)
+    )
+  }
+
+  /**
+   * Forget the account creation request that lwsLogin queued, such as
+   * one an admin rejected, so lwsAccountStatus reports 'unknown' again.
+   * This does not contact the server.
+   * @param walletId - Unique identifier for the wallet
+   */
+  async lwsForgetAccountRequest(walletId: string): Promise<void> {
+    await this.call('lwsForgetAccountRequest', [walletId])
   }
 
   /**
    * Enable or disable the Nym fetch interceptor.
    *
    * When enabled, all LWSF HTTP POST requests that the C++ wallet code
-   * would have issued are redirected through the native event bridge. The
-   * consumer must register a handler via `NativeEventEmitter` on the
-   * "MoneroWalletEvent" event with `eventName === 'nymFetchRequest'` and
-   * call `resolveFetch` / `rejectFetch` to complete the request.
+   * would have issued, along with the LWS account calls and daemon health
+   * probes, are redirected through the native event bridge. The
+   * consumer must subscribe with `on('nymFetchRequest', ...)` and call
+   * `resolveFetch` / `rejectFetch` with the event's `requestId` to
+   * complete the request.
+   *
+   * Disabling also stops any transport set up by `installFetchTransport`.
    *
    * @param enabled - Whether to route HTTP through the JS fetch bridge
    * @param baseUrl - scheme://host[:port] of the LWSF server (must match
@@ -316,10 +1671,46 @@ export class CppBridge {
    *                  when disabling.
    */
   async setNymEnabled(enabled: boolean, baseUrl: string): Promise<void> {
-    await this.module.callMonero('setNymEnabled', [
-      enabled ? 'true' : 'false',
-      baseUrl
-    ])
+    await this.call('setNymEnabled', [enabled ? 'true' : 'false', baseUrl])
+    if (!enabled) {
+      this.stopFetchTransport?.()
+      this.stopFetchTransport = undefined
+    }
+  }
+
+  /**
+   * Route LWSF HTTP requests through the given fetch function.
+   *
+   * This enables the Nym fetch interceptor and services every
+   * `nymFetchRequest` event: decoding the request, calling `fetchImpl`
+   * with a timeout and a concurrency limit, and completing it with
+   * `resolveFetch` or `rejectFetch`. Installing a new transport replaces
+   * the previous one.
+   *
+   * @param fetchImpl - The fetch function to send requests through
+   * @param opts - LWSF server base URL, plus timeout and concurrency limits
+   * @returns A function that disables Nym and stops the transport
+   */
+  async installFetchTransport(
+    fetchImpl: FetchTransportFunction,
+    opts: FetchTransportOptions
+  ): Promise<() => Promise<void>> {
+    this.stopFetchTransport?.()
+    const stop = startFetchTransport(this, fetchImpl, opts)
+    this.stopFetchTransport = stop
+    try {
+      await this.setNymEnabled(true, opts.baseUrl)
+    } catch (error: unknown) {
+      stop()
+      this.stopFetchTransport = undefined
+      throw error
+    }
+
+    return async () => {
+      // Only tear down if we have not already been replaced:
+      if (this.stopFetchTransport !== stop) return
+      await this.setNymEnabled(false, '')
+    }
   }
 
   /**
@@ -336,11 +1727,7 @@ export class CppBridge {
     status: number,
     bodyBase64: string
   ): Promise<void> {
-    await this.module.callMonero('resolveFetch', [
-      requestId,
-      status.toString(),
-      bodyBase64
-    ])
+    await this.call('resolveFetch', [requestId, status.toString(), bodyBase64])
   }
 
   /**
@@ -351,6 +1738,6 @@ export class CppBridge {
    * @param errorMessage - human-readable error description
    */
   async rejectFetch(requestId: string, errorMessage: string): Promise<void> {
-    await this.module.callMonero('rejectFetch', [requestId, errorMessage])
+    await this.call('rejectFetch', [requestId, errorMessage])
   }
 }
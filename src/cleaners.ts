@@ -0,0 +1,356 @@
+import {
+  asArray,
+  asBoolean,
+  asNumber,
+  asObject,
+  asOptional,
+  asString,
+  asValue,
+  type Cleaner
+} from 'cleaners'
+
+import type {
+  DaemonHealth,
+  DaemonNodeHealth,
+  DerivedKeys,
+  FeeEstimate,
+  GeneratedWallet,
+  ImportedWalletBackup,
+  ImportResult,
+  LwsAccountStatus,
+  LwsImportRequest,
+  LwsLoginResult,
+  MaxSpendable,
+  MessageVerification,
+  MoneyTransferPayload,
+  NymFetchRequestPayload,
+  OfflineSignedTransaction,
+  OutputInfo,
+  ParsedUri,
+  PendingTransactionPayload,
+  ReserveProofCheck,
+  SeedType,
+  SignedTransaction,
+  Subaddress,
+  SubaddressAccount,
+  SyncCompletedPayload,
+  SyncProgressPayload,
+  TransactionChanges,
+  TransactionInfo,
+  TransactionsPage,
+  TxKeyCheck,
+  TxProofCheck,
+  UnsignedTransaction,
+  UnsignedTransactionDescription,
+  WalletEventData,
+  WalletStatus
+} from './types'
+
+/** Stable error codes carried by `MoneroLwsfError`. */
+export const asMoneroLwsfErrorCode = asValue(
+  'BROADCAST_REJECTED',
+  'DAEMON_UNREACHABLE',
+  'INSUFFICIENT_FUNDS',
+  'INVALID_ADDRESS',
+  'INVALID_AMOUNT',
+  'INVALID_ARGUMENT',
+  'INVALID_MNEMONIC',
+  'INVALID_RESPONSE',
+  'INVALID_URI',
+  'INVALID_WALLET_ID',
+  'LWS_ERROR',
+  'NO_WALLET_FOR_NETWORK',
+  'TRANSACTION_ERROR',
+  'UNKNOWN_ERROR',
+  'VIEW_ONLY_WALLET',
+  'WALLET_ERROR',
+  'WALLET_NOT_FOUND',
+  'WRONG_PASSWORD'
+)
+
+/**
+ * Accepts an unsigned decimal integer string, as used for atomic-unit
+ * amounts that may exceed `Number.MAX_SAFE_INTEGER`.
+ */
+const asAtomicAmount: Cleaner<string> = raw => {
+  const clean = asString(raw)
+  if (!/^\d+$/.test(clean)) {
+    throw new TypeError(
+      `Expected an atomic amount, got ${JSON.stringify(clean)}`
+    )
+  }
+  return clean
+}
+
+/**
+ * Accepts an unsigned decimal integer string, such as the bare heights
+ * returned by some native methods, and parses it into a number.
+ */
+export const asIntegerString: Cleaner<number> = raw => {
+  const clean = asString(raw)
+  if (!/^\d+$/.test(clean)) {
+    throw new TypeError(
+      `Expected an integer string, got ${JSON.stringify(clean)}`
+    )
+  }
+  return parseInt(clean, 10)
+}
+
+/** Accepts the "true" / "false" strings returned by native predicates. */
+export const asBooleanString: Cleaner<boolean> = raw =>
+  asValue('true', 'false')(raw) === 'true'
+
+export const asSeedType: Cleaner<SeedType> = asValue('legacy', 'polyseed')
+
+export const asGeneratedWallet: Cleaner<GeneratedWallet> = asObject({
+  mnemonic: asString,
+  secretSpendKey: asString,
+  publicSpendKey: asString,
+  seedType: asSeedType,
+  restoreHeight: asNumber
+})
+
+export const asDerivedKeys: Cleaner<DerivedKeys> = asObject({
+  address: asString,
+  secretViewKey: asString,
+  publicViewKey: asString,
+  secretSpendKey: asString,
+  publicSpendKey: asString,
+  seedType: asSeedType,
+  restoreHeight: asNumber
+})
+
+export const asWalletStatus: Cleaner<WalletStatus> = asObject({
+  syncedHeight: asNumber,
+  networkHeight: asNumber,
+  balance: asAtomicAmount,
+  unlockedBalance: asAtomicAmount,
+  isViewOnly: asBoolean,
+  connectionStatus: asValue('disconnected', 'connected', 'wrong-version'),
+  isSynchronized: asBoolean,
+  lastRefreshError: asString,
+  lastRefreshTime: asNumber,
+  daemonAddress: asString,
+  backend: asValue('lws', 'monerod')
+})
+
+export const asDaemonNodeHealth: Cleaner<DaemonNodeHealth> = asObject({
+  address: asString,
+  reachable: asBoolean,
+  height: asNumber
+})
+
+export const asDaemonHealth: Cleaner<DaemonHealth> = asObject({
+  activeDaemon: asString,
+  switched: asBoolean,
+  nodes: asArray(asDaemonNodeHealth)
+})
+
+export const asLwsLoginResult: Cleaner<LwsLoginResult> = asObject({
+  isNew: asBoolean,
+  isPending: asBoolean,
+  startHeight: asNumber
+})
+
+export const asLwsImportRequest: Cleaner<LwsImportRequest> = asObject({
+  importFee: asAtomicAmount,
+  isNewRequest: asBoolean,
+  isFulfilled: asBoolean,
+  status: asString,
+  paymentAddress: asString,
+  paymentId: asString
+})
+
+export const asLwsAccountStatus: Cleaner<LwsAccountStatus> = asObject({
+  state: asValue('approved', 'pending', 'unknown'),
+  startHeight: asNumber,
+  scannedHeight: asNumber,
+  blockchainHeight: asNumber
+})
+
+export const asImportedWalletBackup: Cleaner<ImportedWalletBackup> = asObject({
+  backend: asValue('lws', 'monerod'),
+  nettype: asValue('MAINNET', 'TESTNET', 'STAGENET'),
+  restoreHeight: asNumber,
+  address: asString
+})
+
+export const asTransactionInfo: Cleaner<TransactionInfo> = asObject({
+  hash: asString,
+  direction: asValue(0, 1),
+  isPending: asBoolean,
+  isFailed: asBoolean,
+  isCoinbase: asBoolean,
+  amount: asAtomicAmount,
+  fee: asAtomicAmount,
+  blockHeight: asNumber,
+  confirmations: asNumber,
+  timestamp: asNumber,
+  paymentId: asString,
+  description: asString,
+  label: asString,
+  unlockTime: asNumber,
+  subaddrAccount: asNumber,
+  subaddrIndex: asArray(asNumber),
+  txKey: asOptional(asString)
+})
+
+export const asSubaddressAccount: Cleaner<SubaddressAccount> = asObject({
+  index: asNumber,
+  address: asString,
+  label: asString,
+  balance: asAtomicAmount,
+  unlockedBalance: asAtomicAmount
+})
+
+export const asSubaddress: Cleaner<Subaddress> = asObject({
+  accountIndex: asNumber,
+  index: asNumber,
+  address: asString,
+  label: asString
+})
+
+export const asTransactionChanges: Cleaner<TransactionChanges> = asObject({
+  transactions: asArray(asTransactionInfo),
+  removed: asArray(asString),
+  nextToken: asString,
+  reset: asBoolean
+})
+
+export const asTransactionsPage: Cleaner<TransactionsPage> = asObject({
+  transactions: asArray(asTransactionInfo),
+  totalCount: asNumber,
+  page: asNumber,
+  pageSize: asNumber
+})
+
+export const asFeeEstimate: Cleaner<FeeEstimate> = asObject({
+  fee: asAtomicAmount,
+  weight: asNumber
+})
+
+export const asMaxSpendable: Cleaner<MaxSpendable> = asObject({
+  amount: asAtomicAmount,
+  fee: asAtomicAmount
+})
+
+export const asSignedTransaction: Cleaner<SignedTransaction> = asObject({
+  txid: asString,
+  signedTxHex: asString,
+  fee: asAtomicAmount
+})
+
+export const asTxKeyCheck: Cleaner<TxKeyCheck> = asObject({
+  received: asAtomicAmount,
+  inPool: asBoolean,
+  confirmations: asNumber
+})
+
+export const asTxProofCheck: Cleaner<TxProofCheck> = asObject({
+  good: asBoolean,
+  received: asAtomicAmount,
+  inPool: asBoolean,
+  confirmations: asNumber
+})
+
+export const asReserveProofCheck: Cleaner<ReserveProofCheck> = asObject({
+  good: asBoolean,
+  total: asAtomicAmount,
+  spent: asAtomicAmount
+})
+
+export const asMessageVerification: Cleaner<MessageVerification> = asObject({
+  good: asBoolean,
+  version: asNumber,
+  keyType: asValue('spend', 'view')
+})
+
+export const asOutputInfo: Cleaner<OutputInfo> = asObject({
+  amount: asAtomicAmount,
+  keyImage: asString,
+  txHash: asString,
+  globalIndex: asNumber,
+  blockHeight: asNumber,
+  accountIndex: asNumber,
+  subaddrIndex: asNumber,
+  address: asString,
+  spent: asBoolean,
+  unlocked: asBoolean,
+  frozen: asBoolean
+})
+
+export const asImportResult: Cleaner<ImportResult> = asObject({
+  count: asNumber,
+  balance: asAtomicAmount,
+  unlockedBalance: asAtomicAmount
+})
+
+export const asUnsignedTransaction: Cleaner<UnsignedTransaction> = asObject({
+  unsignedTxHex: asString,
+  amount: asAtomicAmount,
+  fee: asAtomicAmount
+})
+
+export const asUnsignedTransactionDescription: Cleaner<UnsignedTransactionDescription> =
+  asObject({
+    txCount: asNumber,
+    amount: asAtomicAmount,
+    fee: asAtomicAmount,
+    recipients: asArray(asString)
+  })
+
+export const asOfflineSignedTransaction: Cleaner<OfflineSignedTransaction> =
+  asObject({
+    signedTxHex: asString,
+    fee: asAtomicAmount
+  })
+
+export const asParsedUri: Cleaner<ParsedUri> = asObject({
+  address: asString,
+  paymentId: asString,
+  amount: asAtomicAmount,
+  txDescription: asString,
+  recipientName: asString,
+  unknownParameters: asArray(asString)
+})
+
+export const asWalletEventData: Cleaner<WalletEventData> = asObject({
+  walletId: asString,
+  eventName: asValue(
+    'pendingTransactionReceived',
+    'moneySpent',
+    'moneyReceived',
+    'syncProgress',
+    'syncCompleted',
+    'nymFetchRequest'
+  ),
+  data: asString
+})
+
+export const asPendingTransactionPayload: Cleaner<PendingTransactionPayload> =
+  asObject({
+    txId: asString,
+    amount: asNumber
+  })
+
+export const asMoneyTransferPayload: Cleaner<MoneyTransferPayload> = asObject({
+  txId: asString,
+  amount: asAtomicAmount
+})
+
+export const asSyncProgressPayload: Cleaner<SyncProgressPayload> = asObject({
+  height: asNumber,
+  daemonHeight: asNumber
+})
+
+export const asSyncCompletedPayload: Cleaner<SyncCompletedPayload> = asObject({
+  height: asNumber
+})
+
+export const asNymFetchRequestPayload: Cleaner<NymFetchRequestPayload> =
+  asObject({
+    url: asString,
+    method: asString,
+    headers: asObject(asString),
+    bodyBase64: asString
+  })
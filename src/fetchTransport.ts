@@ -0,0 +1,140 @@
+import { base64 } from 'rfc4648'
+
+import type {
+  FetchTransportFunction,
+  FetchTransportOptions,
+  NymFetchRequest
+} from './types'
+
+/**
+ * The parts of `CppBridge` the fetch transport relies on.
+ */
+export interface FetchTransportBridge {
+  readonly on: (
+    eventName: 'nymFetchRequest',
+    handler: (request: NymFetchRequest) => void
+  ) => () => void
+  readonly resolveFetch: (
+    requestId: string,
+    status: number,
+    bodyBase64: string
+  ) => Promise<void>
+  readonly rejectFetch: (
+    requestId: string,
+    errorMessage: string
+  ) => Promise<void>
+}
+
+/** A request the transport has accepted but not yet answered. */
+interface PendingFetch {
+  readonly request: NymFetchRequest
+  readonly controller: AbortController
+  readonly timeout: ReturnType<typeof setTimeout>
+  done: boolean
+}
+
+type FetchOutcome = { status: number; bodyBase64: string } | { error: string }
+
+/**
+ * Services `nymFetchRequest` events using the provided fetch function.
+ *
+ * Every request id is answered by its deadline, measured from when the
+ * event arrives, even if the request is still queued or the fetch function
+ * ignores its abort signal. Stopping answers everything outstanding at once,
+ * so the blocked native threads never wait for the full native timeout.
+ * Results that arrive after a request was answered are dropped.
+ *
+ * @returns A function that stops servicing requests
+ */
+export function startFetchTransport(
+  bridge: FetchTransportBridge,
+  fetchImpl: FetchTransportFunction,
+  opts: FetchTransportOptions
+): () => void {
+  const { maxConcurrent = 4, timeoutMs = 30000 } = opts
+
+  const queue: PendingFetch[] = []
+  const inFlight = new Set<PendingFetch>()
+  let stopped = false
+
+  function complete(requestId: string, outcome: FetchOutcome): void {
+    const promise =
+      'error' in outcome
+        ? bridge.rejectFetch(requestId, outcome.error)
+        : bridge.resolveFetch(requestId, outcome.status, outcome.bodyBase64)
+    // Nothing is waiting on us if the native side has already given up:
+    promise.catch(() => {})
+  }
+
+  /**
+   * Answers a request exactly once. A fetch that outlives its answer
+   * no longer counts against `maxConcurrent`.
+   */
+  function finish(pending: PendingFetch, outcome: FetchOutcome): void {
+    if (pending.done) return
+    pending.done = true
+    clearTimeout(pending.timeout)
+    if ('error' in outcome) pending.controller.abort()
+    inFlight.delete(pending)
+    const index = queue.indexOf(pending)
+    if (index >= 0) queue.splice(index, 1)
+    complete(pending.request.requestId, outcome)
+    pump()
+  }
+
+  function pump(): void {
+    if (stopped) return
+    while (inFlight.size < maxConcurrent && queue.length > 0) {
+      const pending = queue.shift()
+      if (pending == null) break
+      inFlight.add(pending)
+      run(pending).catch(() => {})
+    }
+  }
+
+  async function run(pending: PendingFetch): Promise<void> {
+    const { url, method, headers, bodyBase64 } = pending.request
+    try {
+      const response = await fetchImpl(url, {
+        method,
+        headers,
+        body: bodyBase64 === '' ? undefined : base64.parse(bodyBase64),
+        signal: pending.controller.signal
+      })
+      const body = new Uint8Array(await response.arrayBuffer())
+      finish(pending, {
+        status: response.status,
+        bodyBase64: base64.stringify(body)
+      })
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error)
+      finish(pending, { error: message })
+    }
+  }
+
+  const unsubscribe = bridge.on('nymFetchRequest', request => {
+    if (stopped) {
+      complete(request.requestId, { error: 'Fetch transport stopped' })
+      return
+    }
+    const pending: PendingFetch = {
+      request,
+      controller: new AbortController(),
+      timeout: setTimeout(() => {
+        finish(pending, { error: `Fetch timed out after ${timeoutMs}ms` })
+      }, timeoutMs),
+      done: false
+    }
+    queue.push(pending)
+    pump()
+  })
+
+  return () => {
+    if (stopped) return
+    stopped = true
+    unsubscribe()
+    for (const pending of [...queue, ...inFlight]) {
+      finish(pending, { error: 'Fetch transport stopped' })
+    }
+  }
+}
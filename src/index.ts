@@ -1,14 +1,22 @@
-import { NativeModules } from 'react-native'
+import { NativeEventEmitter, NativeModules } from 'react-native'
 
-import { CppBridge, type NativeMoneroLwsfModule } from './CppBridge'
+import {
+  CppBridge,
+  type MoneroEventSource,
+  type NativeMoneroLwsfModule
+} from './CppBridge'
 
 export function makeMonero(): CppBridge {
   const { MoneroLwsfModule } = NativeModules
   if (MoneroLwsfModule == null) {
     throw new Error('react-native-monero-lwsf native module not linked')
   }
-  return new CppBridge(MoneroLwsfModule)
+  return new CppBridge(
+    MoneroLwsfModule,
+    new NativeEventEmitter(MoneroLwsfModule)
+  )
 }
 
-export type { CppBridge, NativeMoneroLwsfModule }
+export type { CppBridge, MoneroEventSource, NativeMoneroLwsfModule }
+export * from './cleaners'
 export * from './types'
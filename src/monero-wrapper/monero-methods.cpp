@@ -8,6 +8,12 @@
 #include <vector>
 #include <sstream>
 #include <fstream>
+#include <cctype>
+#include <chrono>
+#include <cstring>
+#include <ctime>
+#include <optional>
+#include <future>
 #include "monero-methods.hpp"
 #include "nym-fetch.hpp"
 #include "wallet/api/wallet2_api.h"
@@ -19,18 +25,116 @@
 #include "cryptonote_basic/cryptonote_format_utils.h"
 #include "mnemonics/electrum-words.h"
 #include "string_tools.h"
+#include "wallet/wallet2.h"
+#include "net/http.h"
+#include "net/net_parse_helpers.h"
+#include "rapidjson/document.h"
+
+/** Polyseed (16-word seeds with an embedded birthday) and its dependencies. */
+#include <openssl/evp.h>
+#include <sodium.h>
+#include "polyseed.h"
+#include "utf8proc.h"
 
 /** Forward declaration for LWSF api_key support (defined in patched rpc.cpp). */
 namespace lwsf { namespace config {
   void set_api_key(const std::string& k);
+  void set_api_key_for(const std::string& address, const std::string& server, const std::string& k);
+  void set_server_for(const std::string& address, const std::string& server);
+  void forget_account(const std::string& address);
+  std::string current_address();
+  void set_current_address(const std::string& address);
+  std::string api_key_for(const std::string& address);
 }}
 
 /** Counter for unique temp file names. */
 static uint64_t gTxFileCounter = 0;
 
+/**
+ * A uniquely-named temp file, deleted when it goes out of scope,
+ * so wallet data never outlives a failed call.
+ */
+class TempFile {
+public:
+  TempFile(const std::string& directory, const std::string& name)
+    : path(directory + "/" + name + "_" + std::to_string(++gTxFileCounter)) {}
+  ~TempFile() { std::remove(path.c_str()); }
+  TempFile(const TempFile&) = delete;
+  TempFile& operator=(const TempFile&) = delete;
+
+  const std::string path;
+};
+
+/**
+ * Makes an account the bridge thread's current LWS account while in scope,
+ * so the address-less requests that building and sending a transaction
+ * make carry that account's API key.
+ */
+class LwsAccountScope {
+public:
+  explicit LwsAccountScope(const std::string& address)
+    : m_previous(lwsf::config::current_address()) {
+    lwsf::config::set_current_address(address);
+  }
+  ~LwsAccountScope() { lwsf::config::set_current_address(m_previous); }
+  LwsAccountScope(const LwsAccountScope&) = delete;
+  LwsAccountScope& operator=(const LwsAccountScope&) = delete;
+
+private:
+  const std::string m_previous;
+};
+
 /** Escapes a string for safe embedding in JSON (defined below). */
 static std::string jsonEscape(const std::string& s);
 
+/**
+ * Exception carrying a stable error code for the JS side. The what() string is
+ * a JSON envelope of the form {"code":"...","message":"..."}, which CppBridge
+ * decodes into a MoneroLwsfError. The platform bridges forward e.what()
+ * unchanged, so they need no knowledge of the envelope.
+ */
+class MoneroError : public std::runtime_error {
+public:
+  MoneroError(const std::string& code, const std::string& message)
+    : std::runtime_error(
+        "{\"code\":\"" + jsonEscape(code) + "\",\"message\":\"" + jsonEscape(message) + "\"}") {}
+};
+
+/** Case-insensitive substring test. */
+static bool containsNoCase(const std::string& haystack, const std::string& needle) {
+  auto it = std::search(
+    haystack.begin(), haystack.end(), needle.begin(), needle.end(),
+    [](char a, char b) { return std::tolower(static_cast<unsigned char>(a)) == std::tolower(static_cast<unsigned char>(b)); });
+  return it != haystack.end();
+}
+
+/** Case-insensitive prefix test, used to classify upstream error strings. */
+static bool startsWithNoCase(const std::string& str, const std::string& prefix) {
+  return str.size() >= prefix.size() && std::equal(
+    prefix.begin(), prefix.end(), str.begin(),
+    [](char a, char b) { return std::tolower(static_cast<unsigned char>(a)) == std::tolower(static_cast<unsigned char>(b)); });
+}
+
+/**
+ * Maps a wallet2 error string onto a stable error code, or the fallback.
+ * Call sites that know the cause throw a specific code themselves, so this
+ * only recognizes a few exact message prefixes that have no other source.
+ */
+static std::string classifyError(const std::string& error, const std::string& fallback) {
+  if (startsWithNoCase(error, "invalid password")) return "WRONG_PASSWORD";
+  if (startsWithNoCase(error, "not enough money")) return "INSUFFICIENT_FUNDS";
+  if (startsWithNoCase(error, "no connection to daemon")) return "DAEMON_UNREACHABLE";
+  return fallback;
+}
+
+/** Helper to turn a failed wallet call into a MoneroError. */
+static void checkWalletStatus(Monero::Wallet* wallet, const std::string& context) {
+  if (wallet->status() != Monero::Wallet::Status_Ok) {
+    std::string error = wallet->errorString();
+    throw MoneroError(classifyError(error, "WALLET_ERROR"), context + ": " + error);
+  }
+}
+
 /** Global wallet-event callback (thread-safe). */
 static std::mutex g_eventCbMutex;
 static WalletEventCallback g_walletEventCallback;
@@ -51,32 +155,10 @@ void moneroSetEventCallback(WalletEventCallback cb) {
        const std::string& headersJson,
        const std::string& bodyBase64) {
       std::ostringstream payload;
-      auto escape = [](const std::string& in) {
-        std::string out;
-        out.reserve(in.size() + 8);
-        for (char c : in) {
-          switch (c) {
-            case '"':  out += "\\\""; break;
-            case '\\': out += "\\\\"; break;
-            case '\n': out += "\\n"; break;
-            case '\r': out += "\\r"; break;
-            case '\t': out += "\\t"; break;
-            default:
-              if (static_cast<unsigned char>(c) < 0x20) {
-                char buf[8];
-                std::snprintf(buf, sizeof(buf), "\\u%04x", c);
-                out += buf;
-              } else {
-                out += c;
-              }
-          }
-        }
-        return out;
-      };
-      payload << "{\"url\":\"" << escape(url)
-              << "\",\"method\":\"" << escape(method)
+      payload << "{\"url\":\"" << jsonEscape(url)
+              << "\",\"method\":\"" << jsonEscape(method)
               << "\",\"headers\":" << (headersJson.empty() ? std::string("{}") : headersJson)
-              << ",\"bodyBase64\":\"" << escape(bodyBase64) << "\"}";
+              << ",\"bodyBase64\":\"" << jsonEscape(bodyBase64) << "\"}";
 
       std::lock_guard<std::mutex> lock(g_eventCbMutex);
       if (g_walletEventCallback) {
@@ -99,16 +181,23 @@ std::string hello(const std::vector<std::string> &args) {
   return "hello";
 }
 
-/** WalletListener implementation - handles wallet events and auto-saves during sync. */
+/** WalletListener implementation - forwards wallet events to JS and auto-saves during sync. */
 class WalletListeners : public Monero::WalletListener {
 public:
   WalletListeners(Monero::Wallet* wallet, const std::string& walletId)
-    : m_wallet(wallet), m_walletId(walletId), m_lastSaveHeight(0) {}
+    : m_wallet(wallet), m_walletId(walletId), m_lastSaveHeight(0),
+      m_lastCompletedHeight(0) {}
   virtual ~WalletListeners() {}
   
-  void moneySpent(const std::string &txId, uint64_t amount) override {}
+  void moneySpent(const std::string &txId, uint64_t amount) override {
+    emitWalletEvent(m_walletId, "moneySpent",
+      "{\"txId\":\"" + jsonEscape(txId) + "\",\"amount\":\"" + std::to_string(amount) + "\"}");
+  }
 
-  void moneyReceived(const std::string &txId, uint64_t amount) override {}
+  void moneyReceived(const std::string &txId, uint64_t amount) override {
+    emitWalletEvent(m_walletId, "moneyReceived",
+      "{\"txId\":\"" + jsonEscape(txId) + "\",\"amount\":\"" + std::to_string(amount) + "\"}");
+  }
 
   void unconfirmedMoneyReceived(const std::string &txId, uint64_t amount) override {
     emitWalletEvent(m_walletId, "pendingTransactionReceived",
@@ -116,6 +205,8 @@ public:
   }
   
   void newBlock(uint64_t height) override {
+    emitSyncProgress(height);
+
     // Save progress every 1000 blocks during INITIAL sync only.
     // Once synchronized(), refreshed() takes over save responsibility.
     // This is safe because newBlock() is called from the refresh thread.
@@ -139,6 +230,14 @@ public:
   void updated() override {}
   
   void refreshed() override {
+    // Record the outcome before store() overwrites the wallet status:
+    {
+      std::string error = m_wallet->status() == Monero::Wallet::Status_Ok ? "" : m_wallet->errorString();
+      std::lock_guard<std::mutex> lock(m_refreshMutex);
+      m_lastRefreshError = error;
+      m_lastRefreshTime = static_cast<uint64_t>(std::time(nullptr));
+    }
+
     // Called when refresh cycle completes - safe to store here
     try {
       m_wallet->store("");
@@ -146,12 +245,53 @@ public:
     } catch (...) {
       // Ignore store errors - will retry on next refresh
     }
+
+    // Only report completion once per new synced height, so idle refresh
+    // cycles on a caught-up wallet stay quiet.
+    uint64_t height = m_wallet->blockChainHeight();
+    if (m_wallet->synchronized() && height != m_lastCompletedHeight) {
+      m_lastCompletedHeight = height;
+      emitWalletEvent(m_walletId, "syncCompleted",
+        "{\"height\":" + std::to_string(m_lastCompletedHeight) + "}");
+    }
+  }
+
+  /**
+   * The error from the latest refresh cycle ("" if it succeeded) and when it
+   * finished (seconds since the epoch, 0 if none has). Safe to call from any
+   * thread.
+   */
+  void lastRefresh(std::string& error, uint64_t& time) {
+    std::lock_guard<std::mutex> lock(m_refreshMutex);
+    error = m_lastRefreshError;
+    time = m_lastRefreshTime;
   }
 
 private:
+  /**
+   * Emits a syncProgress event, throttled to one per SYNC_PROGRESS_INTERVAL
+   * since newBlock() fires for every block scanned.
+   */
+  void emitSyncProgress(uint64_t height) {
+    const auto SYNC_PROGRESS_INTERVAL = std::chrono::milliseconds(1000);
+    const auto now = std::chrono::steady_clock::now();
+    if (now - m_lastProgressTime < SYNC_PROGRESS_INTERVAL) return;
+    m_lastProgressTime = now;
+
+    uint64_t daemonHeight = m_wallet->daemonBlockChainHeight();
+    emitWalletEvent(m_walletId, "syncProgress",
+      "{\"height\":" + std::to_string(height) +
+      ",\"daemonHeight\":" + std::to_string(daemonHeight) + "}");
+  }
+
   Monero::Wallet* m_wallet;
   std::string m_walletId;
   uint64_t m_lastSaveHeight;
+  uint64_t m_lastCompletedHeight;
+  std::chrono::steady_clock::time_point m_lastProgressTime;
+  std::mutex m_refreshMutex;
+  std::string m_lastRefreshError;
+  uint64_t m_lastRefreshTime = 0;
 };
 
 /** Wallet tracking structure. */
@@ -161,12 +301,54 @@ struct WalletEntry {
   std::string backend;
   std::string path;
   std::string walletId;
+  std::string primaryAddress; // LWS API keys are bound to this
   
   uint64_t cachedSyncedHeight = 0;
   uint64_t cachedBalance = 0;
   uint64_t cachedUnlockedBalance = 0;
+
+  // Daemon failover. The nodes are in order of preference:
+  std::vector<std::string> daemonAddresses;
+  std::string activeDaemon;
+  int refreshIntervalMs = 0; // 0 for the wallet's default
+
+  // Change feed for getTransactionChanges. Each transaction remembers a
+  // fingerprint of its mutable fields and the sequence number at which it
+  // last changed. The feed persists in the wallet cache, and the epoch
+  // makes tokens from a lost or replaced cache detectable. Tokens older
+  // than changeFloor may have missed pruned removals.
+  bool changeFeedLoaded = false;
+  std::string changeEpoch;
+  uint64_t changeSequence = 0;
+  uint64_t changeFloor = 0;
+  std::map<std::string, std::pair<std::string, uint64_t>> changeLog;
+  std::map<std::string, uint64_t> removedLog;
 };
 
+/**
+ * Wallets whose background sync the app paused with pauseSync. Like
+ * g_wallets, this is only accessed from the serial bridge queue.
+ */
+static std::set<Monero::Wallet*> g_syncPaused;
+
+/**
+ * Restarts background refresh after an internal pause, unless the app
+ * paused it with pauseSync.
+ */
+static void restartRefresh(Monero::Wallet* wallet) {
+  if (g_syncPaused.count(wallet) == 0) wallet->startRefresh();
+}
+
+/** Saves the wallet now, pausing refresh so the cache is consistent. */
+static void storeWallet(Monero::Wallet* wallet) {
+  wallet->pauseRefresh();
+  wallet->store("");
+  restartRefresh(wallet);
+}
+
+/** Counter for unique change-feed epochs. */
+static uint64_t gChangeEpochCounter = 0;
+
 /**
  * Global state - stores all open wallets by ID.
  *
@@ -196,13 +378,13 @@ static Monero::WalletManager* getWalletManager(const std::string& backend) {
  */
 static void requireSafeWalletId(const std::string& walletId) {
   if (walletId.empty()) {
-    throw std::runtime_error("Invalid walletId: empty");
+    throw MoneroError("INVALID_WALLET_ID", "Invalid walletId: empty");
   }
   for (char c : walletId) {
     const bool ok = (c >= 'A' && c <= 'Z') || (c >= 'a' && c <= 'z') ||
                     (c >= '0' && c <= '9') || c == '-' || c == '_';
     if (!ok) {
-      throw std::runtime_error("Invalid walletId: unsafe character");
+      throw MoneroError("INVALID_WALLET_ID", "Invalid walletId: unsafe character");
     }
   }
 }
@@ -211,7 +393,7 @@ static void requireSafeWalletId(const std::string& walletId) {
 static WalletEntry& findWalletOrThrow(const std::string& walletId) {
   auto it = g_wallets.find(walletId);
   if (it == g_wallets.end()) {
-    throw std::runtime_error("Wallet not found");
+    throw MoneroError("WALLET_NOT_FOUND", "Wallet not found");
   }
   return it->second;
 }
@@ -224,39 +406,225 @@ static Monero::Wallet* findWalletByNettype(int nettype) {
       return pair.second.wallet;
     }
   }
-  throw std::runtime_error("No open wallet found for the requested network type");
+  throw MoneroError("NO_WALLET_FOR_NETWORK", "No open wallet found for the requested network type");
+}
+
+/**
+ * Estimates the block height at a timestamp, measuring from each network's
+ * switch to 2-minute blocks (the same reference points wallet2 uses). A week
+ * of blocks is subtracted to absorb block-time drift, so the estimate errs
+ * towards scanning slightly too early rather than missing transactions.
+ */
+static uint64_t heightFromTimestamp(uint64_t timestamp, int nettype) {
+  uint64_t forkHeight = 1009827;
+  uint64_t forkTime = 1458748658;
+  if (nettype == Monero::TESTNET) {
+    forkHeight = 624634;
+    forkTime = 1448285909;
+  } else if (nettype == Monero::STAGENET) {
+    forkHeight = 32000;
+    forkTime = 1520937818;
+  }
+
+  const uint64_t BLOCK_TIME = 120;
+  const uint64_t DRIFT_BLOCKS = 7 * 24 * 60 * 60 / BLOCK_TIME;
+  if (timestamp <= forkTime) return 0;
+  uint64_t height = forkHeight + (timestamp - forkTime) / BLOCK_TIME;
+  return height > DRIFT_BLOCKS ? height - DRIFT_BLOCKS : 0;
+}
+
+/** Polyseed's random-bytes dependency, backed by libsodium. */
+static void polyseedRandbytes(void* result, size_t n) {
+  randombytes_buf(result, n);
+}
+
+/** Polyseed's PBKDF2-SHA256 dependency, backed by OpenSSL. */
+static void polyseedPbkdf2(const uint8_t* pw, size_t pwlen, const uint8_t* salt, size_t saltlen,
+                           uint64_t iterations, uint8_t* key, size_t keylen) {
+  PKCS5_PBKDF2_HMAC(reinterpret_cast<const char*>(pw), pwlen, salt, saltlen,
+                    static_cast<int>(iterations), EVP_sha256(), keylen, key);
+}
+
+/** Polyseed's memory-wiping dependency, backed by libsodium. */
+static void polyseedMemzero(void* ptr, size_t len) {
+  sodium_memzero(ptr, len);
+}
+
+/** Normalizes a UTF-8 string into polyseed's fixed-size buffer using utf8proc. */
+static size_t polyseedNormalize(const char* str, polyseed_str norm, utf8proc_option_t options) {
+  utf8proc_int32_t buffer[POLYSEED_STR_SIZE];
+  utf8proc_ssize_t result = utf8proc_decompose(
+    reinterpret_cast<const uint8_t*>(str), 0, buffer, POLYSEED_STR_SIZE, options);
+  if (result < 0) return POLYSEED_STR_SIZE;
+  if (result > POLYSEED_STR_SIZE - 1) return result;
+
+  result = utf8proc_reencode(buffer, result, options);
+  if (result < 0) return POLYSEED_STR_SIZE;
+
+  std::strcpy(norm, reinterpret_cast<const char*>(buffer));
+  sodium_memzero(buffer, sizeof(buffer));
+  return result;
+}
+
+static size_t polyseedNfc(const char* str, polyseed_str norm) {
+  // UTF8PROC_LUMP turns the ideographic space used by Japanese phrases into a plain space.
+  return polyseedNormalize(str, norm, static_cast<utf8proc_option_t>(
+    UTF8PROC_NULLTERM | UTF8PROC_STABLE | UTF8PROC_COMPOSE | UTF8PROC_STRIPNA | UTF8PROC_LUMP));
+}
+
+static size_t polyseedNfkd(const char* str, polyseed_str norm) {
+  return polyseedNormalize(str, norm, static_cast<utf8proc_option_t>(
+    UTF8PROC_NULLTERM | UTF8PROC_STABLE | UTF8PROC_DECOMPOSE | UTF8PROC_COMPAT | UTF8PROC_STRIPNA | UTF8PROC_LUMP));
+}
+
+/** Installs polyseed's crypto and Unicode dependencies, once per process. */
+static void injectPolyseedDependencies() {
+  static std::once_flag once;
+  std::call_once(once, [] {
+    polyseed_dependency deps = {};
+    deps.randbytes = &polyseedRandbytes;
+    deps.pbkdf2_sha256 = &polyseedPbkdf2;
+    deps.memzero = &polyseedMemzero;
+    deps.u8_nfc = &polyseedNfc;
+    deps.u8_nfkd = &polyseedNfkd;
+    deps.time = nullptr;
+    deps.alloc = nullptr;
+    deps.free = nullptr;
+    polyseed_inject(&deps);
+  });
+}
+
+/** Owning pointer for polyseed_data, which must be released with polyseed_free. */
+using PolyseedPtr = std::unique_ptr<polyseed_data, decltype(&polyseed_free)>;
+
+/** Finds a polyseed language by its English name, such as "English". */
+static const polyseed_lang* findPolyseedLanguage(const std::string& name) {
+  for (int i = 0; i < polyseed_get_num_langs(); ++i) {
+    const polyseed_lang* lang = polyseed_get_lang(i);
+    if (name == polyseed_get_lang_name_en(lang)) return lang;
+  }
+  throw MoneroError("INVALID_ARGUMENT", "Unsupported polyseed language: " + name);
+}
+
+/** Spend key and birthday decoded from a polyseed. */
+struct PolyseedKeys {
+  crypto::secret_key spendKey;
+  uint64_t birthday;
+};
+
+/**
+ * Attempts to decode a mnemonic as a polyseed. Returns nothing for phrases
+ * with the wrong word count (such as legacy 25-word seeds), and throws for
+ * polyseed-length phrases that fail to decode.
+ */
+static std::optional<PolyseedKeys> decodePolyseed(const std::string& mnemonic) {
+  injectPolyseedDependencies();
+
+  polyseed_data* raw = nullptr;
+  const polyseed_lang* lang = nullptr;
+  polyseed_status status = polyseed_decode(mnemonic.c_str(), POLYSEED_MONERO, &lang, &raw);
+  if (status == POLYSEED_ERR_NUM_WORDS) return std::nullopt;
+  if (status != POLYSEED_OK) {
+    throw MoneroError("INVALID_MNEMONIC", "Invalid polyseed");
+  }
+  PolyseedPtr seed(raw, &polyseed_free);
+  if (polyseed_is_encrypted(seed.get())) {
+    throw MoneroError("INVALID_MNEMONIC", "Encrypted polyseeds are not supported");
+  }
+
+  PolyseedKeys out;
+  polyseed_keygen(seed.get(), POLYSEED_MONERO, sizeof(out.spendKey), reinterpret_cast<uint8_t*>(&out.spendKey));
+  out.birthday = polyseed_get_birthday(seed.get());
+  return out;
+}
+
+/**
+ * Decodes either seed format into its spend key.
+ * Sets restoreHeight from the birthday for polyseeds, or to 0 (unknown) for legacy seeds.
+ */
+static crypto::secret_key spendKeyFromMnemonic(
+  const std::string& mnemonic, int nettype, std::string& seedType, uint64_t& restoreHeight
+) {
+  if (auto polyseed = decodePolyseed(mnemonic)) {
+    seedType = "polyseed";
+    restoreHeight = heightFromTimestamp(polyseed->birthday, nettype);
+    return polyseed->spendKey;
+  }
+
+  crypto::secret_key spend_secret;
+  std::string language_name;
+  epee::wipeable_string mnemonic_ws(mnemonic);
+  if (!crypto::ElectrumWords::words_to_bytes(mnemonic_ws, spend_secret, language_name)) {
+    throw MoneroError("INVALID_MNEMONIC", "Invalid mnemonic");
+  }
+  seedType = "legacy";
+  restoreHeight = 0;
+  return spend_secret;
 }
 
 /**
  * Generate a new wallet's keys in memory (no disk I/O).
- * Args: nettype, language
- * Returns: JSON with mnemonic, secretSpendKey, publicSpendKey
+ * Args: nettype, language, seedType ("legacy" or "polyseed")
+ * Returns: JSON with mnemonic, secretSpendKey, publicSpendKey, seedType, restoreHeight
  */
 std::string generateWallet(const std::vector<std::string> &args) {
   int nettype = std::stoi(args[0]);
   std::string language = args[1];
+  std::string seedType = args[2];
   
-  // Generate keys in memory using account_base (no disk persistence)
   cryptonote::account_base account;
-  account.generate();
+  std::string mnemonicStr;
+  uint64_t restoreHeight = 0;
+
+  if (seedType == "polyseed") {
+    injectPolyseedDependencies();
+    const polyseed_lang* lang = findPolyseedLanguage(language);
+
+    polyseed_data* raw = nullptr;
+    if (polyseed_create(0, &raw) != POLYSEED_OK) {
+      throw MoneroError("WALLET_ERROR", "Failed to create polyseed");
+    }
+    PolyseedPtr seed(raw, &polyseed_free);
+
+    polyseed_str phrase;
+    polyseed_encode(seed.get(), lang, POLYSEED_MONERO, phrase);
+    mnemonicStr = phrase;
+    sodium_memzero(phrase, sizeof(phrase));
+
+    crypto::secret_key spendKey;
+    polyseed_keygen(seed.get(), POLYSEED_MONERO, sizeof(spendKey), reinterpret_cast<uint8_t*>(&spendKey));
+    account.generate(spendKey, true, false);  // recover=true
+    restoreHeight = heightFromTimestamp(polyseed_get_birthday(seed.get()), nettype);
+  } else if (seedType == "legacy") {
+    // Generate keys in memory using account_base (no disk persistence)
+    account.generate();
+
+    // Convert spend secret key to mnemonic
+    epee::wipeable_string mnemonic;
+    if (!crypto::ElectrumWords::bytes_to_words(account.get_keys().m_spend_secret_key, mnemonic, language)) {
+      throw MoneroError("INVALID_ARGUMENT", "Failed to convert keys to mnemonic");
+    }
+    mnemonicStr = std::string(mnemonic.data(), mnemonic.size());
+
+    // Legacy seeds carry no birthday, but a brand-new wallet has no history before today:
+    restoreHeight = heightFromTimestamp(static_cast<uint64_t>(std::time(nullptr)), nettype);
+  } else {
+    throw MoneroError("INVALID_ARGUMENT", "Unknown seed type: " + seedType);
+  }
   
   const auto& keys = account.get_keys();
   
-  // Convert spend secret key to mnemonic
-  epee::wipeable_string mnemonic;
-  if (!crypto::ElectrumWords::bytes_to_words(keys.m_spend_secret_key, mnemonic, language)) {
-    throw std::runtime_error("Failed to convert keys to mnemonic");
-  }
-  
   // Convert keys to hex strings (secret keys need unwrap() to get underlying POD)
   std::string secret_spend_key = epee::string_tools::pod_to_hex(unwrap(unwrap(keys.m_spend_secret_key)));
   std::string public_spend_key = epee::string_tools::pod_to_hex(keys.m_account_address.m_spend_public_key);
   
   // Build JSON response
   std::string json = "{";
-  json += "\"mnemonic\":\"" + std::string(mnemonic.data(), mnemonic.size()) + "\",";
+  json += "\"mnemonic\":\"" + jsonEscape(mnemonicStr) + "\",";
   json += "\"secretSpendKey\":\"" + secret_spend_key + "\",";
-  json += "\"publicSpendKey\":\"" + public_spend_key + "\"";
+  json += "\"publicSpendKey\":\"" + public_spend_key + "\",";
+  json += "\"seedType\":\"" + seedType + "\",";
+  json += "\"restoreHeight\":" + std::to_string(restoreHeight);
   json += "}";
   
   return json;
@@ -264,21 +632,17 @@ std::string generateWallet(const std::vector<std::string> &args) {
 
 /**
  * Derive all keys from a mnemonic (no disk I/O).
+ * Accepts both legacy 25-word seeds and 16-word polyseeds.
  * Args: mnemonic, nettype
- * Returns: JSON with address, secretViewKey, publicViewKey, secretSpendKey, publicSpendKey
+ * Returns: JSON with address, secretViewKey, publicViewKey, secretSpendKey, publicSpendKey, seedType, restoreHeight
  */
 std::string seedAndKeysFromMnemonic(const std::vector<std::string> &args) {
   std::string mnemonic_str = args[0];
   int nettype = std::stoi(args[1]);
   
-  // Convert mnemonic to spend secret key
-  crypto::secret_key spend_secret;
-  std::string language_name;
-  epee::wipeable_string mnemonic_ws(mnemonic_str);
-  
-  if (!crypto::ElectrumWords::words_to_bytes(mnemonic_ws, spend_secret, language_name)) {
-    throw std::runtime_error("Invalid mnemonic");
-  }
+  std::string seedType;
+  uint64_t restoreHeight = 0;
+  crypto::secret_key spend_secret = spendKeyFromMnemonic(mnemonic_str, nettype, seedType, restoreHeight);
   
   // Recover account from spend key (derives view key automatically)
   cryptonote::account_base account;
@@ -302,7 +666,9 @@ std::string seedAndKeysFromMnemonic(const std::vector<std::string> &args) {
   json += "\"secretViewKey\":\"" + secret_view_key + "\",";
   json += "\"publicViewKey\":\"" + public_view_key + "\",";
   json += "\"secretSpendKey\":\"" + secret_spend_key + "\",";
-  json += "\"publicSpendKey\":\"" + public_spend_key + "\"";
+  json += "\"publicSpendKey\":\"" + public_spend_key + "\",";
+  json += "\"seedType\":\"" + seedType + "\",";
+  json += "\"restoreHeight\":" + std::to_string(restoreHeight);
   json += "}";
   
   return json;
@@ -319,15 +685,15 @@ std::string getNetworkBlockHeight(const std::vector<std::string> &args) {
   std::string daemon_address = args[2];
   
   // The WalletManager is a shared singleton, but its daemon address is only
-  // read by this method, which re-sets it on every call before querying. Wallet
-  // operations connect via their own wallet->init(), not the manager's address,
-  // so this transient mutation cannot perturb other wallets/sessions.
+  // read by this method and probeDaemon, which re-set it on every call before
+  // querying. Wallet operations connect via their own wallet->init(), not the
+  // manager's address, so this transient mutation cannot perturb other wallets.
   Monero::WalletManager* manager = getWalletManager(backend);
   manager->setDaemonAddress(daemon_address);
   
   // Check if connected
   if (!manager->connected()) {
-    throw std::runtime_error("Failed to connect to daemon at " + daemon_address);
+    throw MoneroError("DAEMON_UNREACHABLE", "Failed to connect to daemon at " + daemon_address);
   }
   
   uint64_t height = manager->blockchainHeight();
@@ -349,10 +715,184 @@ std::string isValidAddress(const std::vector<std::string> &args) {
   return valid ? "true" : "false";
 }
 
+/** Helper to split a comma-separated string. */
+static std::vector<std::string> splitString(const std::string& str, char delimiter) {
+  std::vector<std::string> tokens;
+  std::stringstream ss(str);
+  std::string token;
+  while (std::getline(ss, token, delimiter)) {
+    tokens.push_back(token);
+  }
+  return tokens;
+}
+
+/** Helper to parse an optional unsigned number, where "" means unset. */
+static std::optional<uint64_t> parseOptionalNumber(const std::string& str) {
+  if (str.empty()) return std::nullopt;
+  try {
+    return std::stoull(str);
+  } catch (...) {
+    throw MoneroError("INVALID_ARGUMENT", "Invalid number: " + str);
+  }
+}
+
+/**
+ * Helper to build the status JSON for a wallet from its cached balances.
+ * Callers refresh the cache first as appropriate.
+ */
+static std::string walletStatusJson(const WalletEntry& entry, uint64_t networkHeight) {
+  std::string connectionStatus;
+  switch (entry.wallet->connected()) {
+    case Monero::Wallet::ConnectionStatus_Connected: connectionStatus = "connected"; break;
+    case Monero::Wallet::ConnectionStatus_WrongVersion: connectionStatus = "wrong-version"; break;
+    default: connectionStatus = "disconnected"; break;
+  }
+  std::string lastRefreshError;
+  uint64_t lastRefreshTime = 0;
+  entry.listener->lastRefresh(lastRefreshError, lastRefreshTime);
+
+  std::string json = "{";
+  json += "\"syncedHeight\":" + std::to_string(entry.cachedSyncedHeight) + ",";
+  json += "\"networkHeight\":" + std::to_string(networkHeight) + ",";
+  json += "\"balance\":\"" + std::to_string(entry.cachedBalance) + "\",";
+  json += "\"unlockedBalance\":\"" + std::to_string(entry.cachedUnlockedBalance) + "\",";
+  json += "\"isViewOnly\":" + std::string(entry.wallet->watchOnly() ? "true" : "false") + ",";
+  json += "\"connectionStatus\":\"" + connectionStatus + "\",";
+  json += "\"isSynchronized\":" + std::string(entry.wallet->synchronized() ? "true" : "false") + ",";
+  json += "\"lastRefreshError\":\"" + jsonEscape(lastRefreshError) + "\",";
+  json += "\"lastRefreshTime\":" + std::to_string(lastRefreshTime) + ",";
+  json += "\"daemonAddress\":\"" + jsonEscape(entry.activeDaemon) + "\",";
+  json += "\"backend\":\"" + jsonEscape(entry.backend) + "\"";
+  json += "}";
+  return json;
+}
+
+/** Helper to re-read heights and balances into the wallet's cache. */
+static void refreshWalletCache(WalletEntry& entry) {
+  entry.cachedSyncedHeight = entry.wallet->blockChainHeight();
+  entry.cachedBalance = entry.wallet->balanceAll();
+  entry.cachedUnlockedBalance = entry.wallet->unlockedBalanceAll();
+}
+
+/** Helper to open a wallet from disk, checking the password first. */
+static Monero::Wallet* openExistingWallet(
+  Monero::WalletManager* manager,
+  const std::string& path,
+  const std::string& password,
+  Monero::NetworkType network
+) {
+  if (!manager->verifyWalletPassword(path + ".keys", password, true)) {
+    throw MoneroError("WRONG_PASSWORD", "Wrong wallet password");
+  }
+  Monero::Wallet* wallet = manager->openWallet(path, password, network);
+  wallet->setRecoveringFromSeed(true);
+  return wallet;
+}
+
+/**
+ * Helper to point an open wallet at a different daemon.
+ * Re-running init resets the refresh interval and the trusted-daemon flag,
+ * so this puts them back. API keys bound to the old server stay with it.
+ */
+static void switchDaemon(WalletEntry& entry, const std::string& daemonAddress) {
+  bool isLws = (entry.backend == "lws");
+  bool trusted = entry.wallet->trustedDaemon();
+  entry.wallet->pauseRefresh();
+  lwsf::config::set_server_for(entry.primaryAddress, daemonAddress);
+  entry.wallet->init(daemonAddress, 0, "", "", false, isLws, "");
+  entry.wallet->setTrustedDaemon(trusted);
+  if (entry.refreshIntervalMs > 0) entry.wallet->setAutoRefreshInterval(entry.refreshIntervalMs);
+  restartRefresh(entry.wallet);
+  entry.activeDaemon = daemonAddress;
+}
+
+/**
+ * Helper to resume refreshing an already-open wallet and report its status.
+ * The daemon list replaces the wallet's current one, moving the wallet to
+ * the first node if its active daemon is no longer listed. A non-empty
+ * lwsApiKey replaces the wallet's key for its active daemon.
+ */
+static std::string resumeOpenWallet(
+  WalletEntry& entry,
+  const std::string& daemonAddresses,
+  const std::string& lwsApiKey
+) {
+  std::vector<std::string> nodes = splitString(daemonAddresses, ',');
+  if (!nodes.empty() && nodes != entry.daemonAddresses) {
+    entry.daemonAddresses = nodes;
+    if (std::find(nodes.begin(), nodes.end(), entry.activeDaemon) == nodes.end()) {
+      switchDaemon(entry, nodes[0]);
+    }
+  }
+  if (!lwsApiKey.empty()) lwsf::config::set_api_key_for(entry.primaryAddress, entry.activeDaemon, lwsApiKey);
+  restartRefresh(entry.wallet);
+  refreshWalletCache(entry);
+  return walletStatusJson(entry, entry.wallet->daemonBlockChainHeight());
+}
+
+/**
+ * Helper to finish opening a freshly loaded or created wallet: checks its
+ * status, connects it to the daemon, starts refreshing, and registers it.
+ */
+static std::string startWallet(
+  Monero::WalletManager* manager,
+  Monero::Wallet* wallet,
+  const std::string& walletId,
+  const std::string& backend,
+  const std::string& path,
+  const std::string& daemonAddresses,
+  const std::string& lwsApiKey
+) {
+  if (wallet == nullptr) {
+    throw MoneroError("WALLET_ERROR", "Failed to open or create wallet");
+  }
+  
+  if (wallet->status() != Monero::Wallet::Status_Ok) {
+    std::string error = wallet->errorString();
+    manager->closeWallet(wallet);
+    throw MoneroError(classifyError(error, "WALLET_ERROR"), "Wallet error: " + error);
+  }
+  
+  std::vector<std::string> nodes = splitString(daemonAddresses, ',');
+  std::string daemonAddress = nodes.empty() ? "" : nodes[0];
+  
+  // Bind the API key before init, which may already talk to the server:
+  std::string primaryAddress = wallet->address(0, 0);
+  lwsf::config::set_server_for(primaryAddress, daemonAddress);
+  if (!lwsApiKey.empty()) lwsf::config::set_api_key_for(primaryAddress, daemonAddress, lwsApiKey);
+  
+  bool isLws = (backend == "lws");
+  wallet->init(daemonAddress, 0, "", "", false, isLws, "");
+
+  auto listener = std::make_unique<WalletListeners>(wallet, walletId);
+  wallet->setListener(listener.get());
+
+  wallet->startRefresh();
+  
+  WalletEntry entry;
+  entry.wallet = wallet;
+  entry.listener = std::move(listener);
+  entry.backend = backend;
+  entry.path = path;
+  entry.walletId = walletId;
+  entry.primaryAddress = primaryAddress;
+  entry.daemonAddresses = nodes;
+  entry.activeDaemon = daemonAddress;
+  entry.changeEpoch = std::to_string(std::time(nullptr)) + "-" + std::to_string(++gChangeEpochCounter);
+  refreshWalletCache(entry);
+  uint64_t networkHeight = wallet->daemonBlockChainHeight();
+  std::string json = walletStatusJson(entry, networkHeight);
+  g_wallets[walletId] = std::move(entry);
+
+  return json;
+}
+
 /**
  * Open or create a wallet.
- * Args: documentDirectory, walletId, backend, mnemonic, password, nettype, restoreHeight, daemonAddress
- * Returns: JSON with syncedHeight, networkHeight, balance, and unlockedBalance
+ * The mnemonic may be a legacy seed or a polyseed; for polyseeds, a restoreHeight
+ * of 0 means "use the seed's birthday".
+ * Args: documentDirectory, walletId, backend, mnemonic, password, nettype, restoreHeight, daemonAddresses (comma-separated, in order of preference), lwsApiKey ("" for the global key)
+ * Returns: JSON with syncedHeight, networkHeight, balance, unlockedBalance, and isViewOnly
  */
 std::string openWallet(const std::vector<std::string> &args) {
   std::string documentDirectory = args[0];
@@ -362,7 +902,8 @@ std::string openWallet(const std::vector<std::string> &args) {
   std::string password = args[4];
   int nettype = std::stoi(args[5]);
   uint64_t restoreHeight = std::stoull(args[6]);
-  std::string daemonAddress = args[7];
+  std::string daemonAddresses = args[7];
+  std::string lwsApiKey = args[8];
   
   Monero::NetworkType network = static_cast<Monero::NetworkType>(nettype);
   Monero::WalletManager* manager = getWalletManager(backend);
@@ -370,26 +911,7 @@ std::string openWallet(const std::vector<std::string> &args) {
   // Check if wallet is already open
   auto it = g_wallets.find(walletId);
   if (it != g_wallets.end()) {
-    WalletEntry& entry = it->second;
-    Monero::Wallet* wallet = entry.wallet;
-    wallet->startRefresh();
-    
-    uint64_t syncedHeight = wallet->blockChainHeight();
-    uint64_t networkHeight = wallet->daemonBlockChainHeight();
-    uint64_t balance = wallet->balanceAll();
-    uint64_t unlockedBalance = wallet->unlockedBalanceAll();
-    
-    entry.cachedSyncedHeight = syncedHeight;
-    entry.cachedBalance = balance;
-    entry.cachedUnlockedBalance = unlockedBalance;
-    
-    std::string json = "{";
-    json += "\"syncedHeight\":" + std::to_string(syncedHeight) + ",";
-    json += "\"networkHeight\":" + std::to_string(networkHeight) + ",";
-    json += "\"balance\":\"" + std::to_string(balance) + "\",";
-    json += "\"unlockedBalance\":\"" + std::to_string(unlockedBalance) + "\"";
-    json += "}";
-    return json;
+    return resumeOpenWallet(it->second, daemonAddresses, lwsApiKey);
   }
   
   requireSafeWalletId(walletId);
@@ -398,60 +920,75 @@ std::string openWallet(const std::vector<std::string> &args) {
   Monero::Wallet* wallet = nullptr;
   
   if (manager->walletExists(path)) {
-    wallet = manager->openWallet(path, password, network);
-    wallet->setRecoveringFromSeed(true);
+    wallet = openExistingWallet(manager, path, password, network);
+  } else if (auto polyseed = decodePolyseed(mnemonic)) {
+    // wallet2 only understands legacy mnemonics, so restore polyseeds from keys:
+    cryptonote::account_base account;
+    account.generate(polyseed->spendKey, true, false);  // recover=true
+    const auto& keys = account.get_keys();
+    if (restoreHeight == 0) {
+      restoreHeight = heightFromTimestamp(polyseed->birthday, nettype);
+    }
+    wallet = manager->createWalletFromKeys(
+      path, password, "English", network, restoreHeight,
+      account.get_public_address_str(static_cast<cryptonote::network_type>(nettype)),
+      epee::string_tools::pod_to_hex(unwrap(unwrap(keys.m_view_secret_key))),
+      epee::string_tools::pod_to_hex(unwrap(unwrap(keys.m_spend_secret_key))));
   } else {
     wallet = manager->recoveryWallet(path, password, mnemonic, network, restoreHeight);
   }
   
-  if (wallet == nullptr) {
-    throw std::runtime_error("Failed to open or create wallet");
-  }
+  return startWallet(manager, wallet, walletId, backend, path, daemonAddresses, lwsApiKey);
+}
+
+/**
+ * Open or create a view-only wallet from an address and secret view key.
+ * The spend key never touches the device, so the wallet cannot sign.
+ * Args: documentDirectory, walletId, backend, address, secretViewKey, password, nettype, restoreHeight, daemonAddresses (comma-separated, in order of preference), lwsApiKey ("" for the global key)
+ * Returns: JSON with syncedHeight, networkHeight, balance, unlockedBalance, and isViewOnly
+ */
+std::string openViewOnlyWallet(const std::vector<std::string> &args) {
+  std::string documentDirectory = args[0];
+  std::string walletId = args[1];
+  std::string backend = args[2];
+  std::string address = args[3];
+  std::string secretViewKey = args[4];
+  std::string password = args[5];
+  int nettype = std::stoi(args[6]);
+  uint64_t restoreHeight = std::stoull(args[7]);
+  std::string daemonAddresses = args[8];
+  std::string lwsApiKey = args[9];
   
-  if (wallet->status() != Monero::Wallet::Status_Ok) {
-    std::string error = wallet->errorString();
-    manager->closeWallet(wallet);
-    throw std::runtime_error("Wallet error: " + error);
+  Monero::NetworkType network = static_cast<Monero::NetworkType>(nettype);
+  Monero::WalletManager* manager = getWalletManager(backend);
+  
+  auto it = g_wallets.find(walletId);
+  if (it != g_wallets.end()) {
+    return resumeOpenWallet(it->second, daemonAddresses, lwsApiKey);
   }
   
-  bool isLws = (backend == "lws");
-  wallet->init(daemonAddress, 0, "", "", false, isLws, "");
-
-  auto listener = std::make_unique<WalletListeners>(wallet, walletId);
-  wallet->setListener(listener.get());
-
-  wallet->startRefresh();
+  requireSafeWalletId(walletId);
+  std::string path = documentDirectory + "/" + backend + "_" + walletId;
   
-  uint64_t syncedHeight = wallet->blockChainHeight();
-  uint64_t networkHeight = wallet->daemonBlockChainHeight();
-  uint64_t balance = wallet->balanceAll();
-  uint64_t unlockedBalance = wallet->unlockedBalanceAll();
+  Monero::Wallet* wallet = nullptr;
   
-  WalletEntry entry;
-  entry.wallet = wallet;
-  entry.listener = std::move(listener);
-  entry.backend = backend;
-  entry.path = path;
-  entry.walletId = walletId;
-  entry.cachedSyncedHeight = syncedHeight;
-  entry.cachedBalance = balance;
-  entry.cachedUnlockedBalance = unlockedBalance;
-  g_wallets[walletId] = std::move(entry);
-
-  std::string json = "{";
-  json += "\"syncedHeight\":" + std::to_string(syncedHeight) + ",";
-  json += "\"networkHeight\":" + std::to_string(networkHeight) + ",";
-  json += "\"balance\":\"" + std::to_string(balance) + "\",";
-  json += "\"unlockedBalance\":\"" + std::to_string(unlockedBalance) + "\"";
-  json += "}";
+  if (manager->walletExists(path)) {
+    wallet = openExistingWallet(manager, path, password, network);
+  } else {
+    if (!Monero::Wallet::addressValid(address, network)) {
+      throw MoneroError("INVALID_ADDRESS", "Invalid address for the requested network type");
+    }
+    wallet = manager->createWalletFromKeys(
+      path, password, "English", network, restoreHeight, address, secretViewKey, "");
+  }
   
-  return json;
+  return startWallet(manager, wallet, walletId, backend, path, daemonAddresses, lwsApiKey);
 }
 
 /**
  * Get wallet status (synced and network heights, balances).
  * Args: walletId
- * Returns: JSON with syncedHeight, networkHeight, balance, and unlockedBalance
+ * Returns: JSON with syncedHeight, networkHeight, balance, unlockedBalance, and isViewOnly
  */
 std::string getWalletStatus(const std::vector<std::string> &args) {
   std::string walletId = args[0];
@@ -468,17 +1005,310 @@ std::string getWalletStatus(const std::vector<std::string> &args) {
   }
 
   uint64_t networkHeight = wallet->daemonBlockChainHeight();
-  uint64_t balance = entry.cachedBalance;
-  uint64_t unlockedBalance = entry.cachedUnlockedBalance;
-  
-  std::string json = "{";
-  json += "\"syncedHeight\":" + std::to_string(syncedHeight) + ",";
-  json += "\"networkHeight\":" + std::to_string(networkHeight) + ",";
-  json += "\"balance\":\"" + std::to_string(balance) + "\",";
-  json += "\"unlockedBalance\":\"" + std::to_string(unlockedBalance) + "\"";
-  json += "}";
-  
-  return json;
+  return walletStatusJson(entry, networkHeight);
+}
+
+/** Parts of a daemon or LWS server address. */
+struct ServerAddress {
+  std::string host;
+  std::string port;
+  bool https;
+  std::string path; // Without a trailing slash
+};
+
+/** Helper to parse a daemon or LWS server address, which may omit the scheme. */
+static std::optional<ServerAddress> parseServerAddress(const std::string& address) {
+  std::string url = address;
+  if (url.find("://") == std::string::npos) url = "http://" + url;
+  epee::net_utils::http::url_content parsed;
+  if (!epee::net_utils::parse_url(url, parsed) || parsed.host.empty()) return std::nullopt;
+  
+  ServerAddress server;
+  server.host = parsed.host;
+  server.https = parsed.schema == "https";
+  server.port = std::to_string(parsed.port != 0 ? parsed.port : (server.https ? 443 : 80));
+  server.path = parsed.uri;
+  while (!server.path.empty() && server.path.back() == '/') server.path.pop_back();
+  return server;
+}
+
+/**
+ * Helper to POST JSON to a daemon or LWS server, returning the HTTP status
+ * and body, or nothing if there was no response. While Nym is enabled, the
+ * request goes through the JS fetch bridge like lwsf's own requests, and
+ * never touches the network directly. Safe to call from any thread.
+ */
+static std::optional<std::pair<int, std::string>> httpPost(
+  const ServerAddress& server,
+  const std::string& endpoint,
+  const std::string& body,
+  std::chrono::milliseconds timeout
+) {
+  if (nymfetch::isEnabled()) {
+    std::string url = (server.https ? "https://" : "http://") + server.host + ":" + server.port;
+    url += server.path + endpoint;
+    try {
+      nymfetch::Response response = nymfetch::performFetch(
+        url, "POST", "{\"Content-Type\":\"application/json; charset=utf-8\"}", body, timeout.count());
+      if (response.status <= 0) return std::nullopt;
+      return std::make_pair(response.status, response.body);
+    } catch (const std::exception&) {
+      return std::nullopt;
+    }
+  }
+  
+  std::unique_ptr<epee::net_utils::http::abstract_http_client> client = net::http::client_factory{}.create();
+  client->set_server(server.host, server.port, boost::none,
+    server.https ? epee::net_utils::ssl_support_t::e_ssl_support_enabled : epee::net_utils::ssl_support_t::e_ssl_support_disabled);
+  const epee::net_utils::http::fields_list headers{
+    {"Content-Type", "application/json; charset=utf-8"}
+  };
+  const epee::net_utils::http::http_response_info* info = nullptr;
+  if (!client->invoke(server.path + endpoint, "POST", body, timeout, &info, headers) || info == nullptr) {
+    return std::nullopt;
+  }
+  return std::make_pair(info->m_response_code, info->m_body);
+}
+
+/** Helper to read an optional boolean from a JSON response. */
+static bool jsonBool(const rapidjson::Value& object, const char* name) {
+  auto it = object.FindMember(name);
+  return it != object.MemberEnd() && it->value.IsBool() && it->value.GetBool();
+}
+
+/** Helper to read an optional height or amount, sent as a number or a string. */
+static uint64_t jsonUint64(const rapidjson::Value& object, const char* name) {
+  auto it = object.FindMember(name);
+  if (it == object.MemberEnd()) return 0;
+  if (it->value.IsUint64()) return it->value.GetUint64();
+  if (it->value.IsString()) {
+    try {
+      return std::stoull(it->value.GetString());
+    } catch (...) {
+    }
+  }
+  return 0;
+}
+
+/** Helper to read an optional string from a JSON response. */
+static std::string jsonString(const rapidjson::Value& object, const char* name) {
+  auto it = object.FindMember(name);
+  return it != object.MemberEnd() && it->value.IsString() ? it->value.GetString() : "";
+}
+
+/**
+ * Helper to build a light-wallet REST request body: the account's address
+ * and view key, the wallet's API key if one is set, and any extra fields.
+ */
+static std::string lwsRequestBody(const WalletEntry& entry, const std::string& fieldsJson) {
+  std::string body = "{";
+  body += "\"address\":\"" + jsonEscape(entry.primaryAddress) + "\",";
+  body += "\"view_key\":\"" + jsonEscape(entry.wallet->secretViewKey()) + "\"";
+  std::string apiKey = lwsf::config::api_key_for(entry.primaryAddress);
+  if (!apiKey.empty()) body += ",\"api_key\":\"" + jsonEscape(apiKey) + "\"";
+  if (!fieldsJson.empty()) body += "," + fieldsJson;
+  body += "}";
+  return body;
+}
+
+/** Timeout for each node probe in checkDaemonHealth. */
+static const std::chrono::seconds DAEMON_PROBE_TIMEOUT(5);
+
+/**
+ * Helper to get a node's height, or nothing if it is unreachable. Probes
+ * carry no account credentials, so listing a node never shares the view
+ * key or API key with it. Safe to call from any thread.
+ */
+static std::optional<uint64_t> probeDaemon(const std::string& backend, const std::string& daemonAddress) {
+  std::optional<ServerAddress> server = parseServerAddress(daemonAddress);
+  if (!server) return std::nullopt;
+  bool isLws = (backend == "lws");
+  auto reply = httpPost(*server, isLws ? "/get_version" : "/get_height", "{}", DAEMON_PROBE_TIMEOUT);
+  if (!reply || reply->first != 200) return std::nullopt;
+  
+  rapidjson::Document json;
+  json.Parse(reply->second.c_str());
+  if (json.HasParseError() || !json.IsObject()) return std::nullopt;
+  uint64_t height = jsonUint64(json, isLws ? "blockchain_height" : "height");
+  if (height == 0) return std::nullopt;
+  return height;
+}
+
+/**
+ * Switch an open wallet to a different daemon, without reopening it.
+ * Args: walletId, daemonAddress
+ * Returns: "ok"
+ */
+std::string setDaemon(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string daemonAddress = args[1];
+  
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  switchDaemon(entry, daemonAddress);
+  checkWalletStatus(entry.wallet, "Failed to switch daemon");
+  return "ok";
+}
+
+/**
+ * Probe every daemon in the wallet's list, and fail over if the active one
+ * is unreachable or lags the best height by more than maxHeightLag blocks.
+ * The replacement is the first node in preference order that is reachable
+ * and within the lag limit. Nodes are probed in parallel, and each probe
+ * gives up after DAEMON_PROBE_TIMEOUT, which bounds how long this holds
+ * the bridge queue.
+ * Args: walletId, maxHeightLag
+ * Returns: JSON with activeDaemon, switched, and per-node results
+ */
+std::string checkDaemonHealth(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  uint64_t maxHeightLag = std::stoull(args[1]);
+  
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  
+  std::vector<std::string> nodes = entry.daemonAddresses;
+  if (std::find(nodes.begin(), nodes.end(), entry.activeDaemon) == nodes.end()) {
+    nodes.push_back(entry.activeDaemon);
+  }
+  
+  // Probe every node at once, so a dead one only holds up the bridge
+  // queue for one short timeout:
+  std::vector<std::future<std::optional<uint64_t>>> probes;
+  for (const auto& node : nodes) {
+    probes.push_back(std::async(std::launch::async, probeDaemon, entry.backend, node));
+  }
+  std::vector<std::optional<uint64_t>> heights;
+  uint64_t bestHeight = 0;
+  for (auto& probe : probes) {
+    heights.push_back(probe.get());
+    if (heights.back()) bestHeight = std::max(bestHeight, *heights.back());
+  }
+  auto isHealthy = [&](size_t i) {
+    return heights[i] && *heights[i] + maxHeightLag >= bestHeight;
+  };
+  
+  bool switched = false;
+  size_t active = std::find(nodes.begin(), nodes.end(), entry.activeDaemon) - nodes.begin();
+  if (!isHealthy(active)) {
+    for (size_t i = 0; i < nodes.size(); ++i) {
+      if (i != active && isHealthy(i)) {
+        switchDaemon(entry, nodes[i]);
+        switched = true;
+        break;
+      }
+    }
+  }
+  
+  std::string json = "{";
+  json += "\"activeDaemon\":\"" + jsonEscape(entry.activeDaemon) + "\",";
+  json += "\"switched\":" + std::string(switched ? "true" : "false") + ",";
+  json += "\"nodes\":[";
+  for (size_t i = 0; i < nodes.size(); ++i) {
+    if (i > 0) json += ",";
+    json += "{\"address\":\"" + jsonEscape(nodes[i]) + "\",";
+    json += "\"reachable\":" + std::string(heights[i] ? "true" : "false") + ",";
+    json += "\"height\":" + std::to_string(heights[i].value_or(0)) + "}";
+  }
+  json += "]}";
+  return json;
+}
+
+/**
+ * Stop background sync, and the network traffic it causes, until resumeSync.
+ * Args: walletId
+ * Returns: "ok"
+ */
+std::string pauseSync(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  g_syncPaused.insert(wallet);
+  wallet->pauseRefresh();
+  return "ok";
+}
+
+/**
+ * Restart background sync after pauseSync.
+ * Args: walletId
+ * Returns: "ok"
+ */
+std::string resumeSync(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  g_syncPaused.erase(wallet);
+  wallet->startRefresh();
+  return "ok";
+}
+
+/**
+ * Run one refresh cycle and wait for it to finish. This works while
+ * background sync is paused, so it fits OS background-fetch windows.
+ * Fails if the daemon is unreachable or still syncing, rather than
+ * returning a stale status.
+ * Args: walletId
+ * Returns: JSON wallet status
+ */
+std::string refreshNow(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  Monero::Wallet* wallet = entry.wallet;
+  
+  if (wallet->connected() != Monero::Wallet::ConnectionStatus_Connected) {
+    throw MoneroError("DAEMON_UNREACHABLE", "Cannot reach daemon at " + entry.activeDaemon);
+  }
+  // wallet2 quietly skips refreshing against a daemon that is still syncing:
+  if (entry.backend != "lws" && !wallet->daemonSynced()) {
+    throw MoneroError("DAEMON_UNREACHABLE", "Daemon at " + entry.activeDaemon + " is not synchronized");
+  }
+  if (!wallet->refresh()) {
+    throw MoneroError("DAEMON_UNREACHABLE", "Refresh failed: " + wallet->errorString());
+  }
+  refreshWalletCache(entry);
+  return walletStatusJson(entry, entry.wallet->daemonBlockChainHeight());
+}
+
+/**
+ * Set how often background sync polls for new blocks.
+ * Args: walletId, intervalMs
+ * Returns: "ok"
+ */
+std::string setRefreshInterval(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  int intervalMs = std::stoi(args[1]);
+  if (intervalMs <= 0) {
+    throw MoneroError("INVALID_ARGUMENT", "Refresh interval must be positive");
+  }
+  
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  entry.wallet->setAutoRefreshInterval(intervalMs);
+  entry.refreshIntervalMs = intervalMs;
+  return "ok";
+}
+
+/**
+ * Forget the synced chain state and scan again in the background,
+ * optionally from a different height. Notes and keys are kept.
+ * Args: walletId, fromHeight ("" to keep the wallet's restore height)
+ * Returns: "ok"
+ */
+std::string rescanBlockchain(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::optional<uint64_t> fromHeight = parseOptionalNumber(args[1]);
+  
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  if (fromHeight) entry.wallet->setRefreshFromBlockHeight(*fromHeight);
+  entry.wallet->rescanBlockchainAsync();
+  entry.cachedSyncedHeight = 0;
+  return "ok";
+}
+
+/**
+ * Helper to drop a closing wallet's API keys, unless another open wallet
+ * with the same primary address still uses them.
+ */
+static void releaseLwsApiKey(const std::string& walletId, const WalletEntry& entry) {
+  for (const auto& pair : g_wallets) {
+    if (pair.first != walletId && pair.second.primaryAddress == entry.primaryAddress) return;
+  }
+  lwsf::config::forget_account(entry.primaryAddress);
 }
 
 /**
@@ -492,6 +1322,8 @@ std::string closeWallet(const std::vector<std::string> &args) {
   Monero::WalletManager* manager = getWalletManager(entry.backend);
 
   entry.wallet->setListener(nullptr);
+  g_syncPaused.erase(entry.wallet);
+  releaseLwsApiKey(walletId, entry);
 
   manager->closeWallet(entry.wallet);
   
@@ -515,6 +1347,8 @@ std::string deleteWallet(const std::vector<std::string> &args) {
     WalletEntry& entry = it->second;
     Monero::WalletManager* manager = getWalletManager(entry.backend);
     entry.wallet->setListener(nullptr);
+    g_syncPaused.erase(entry.wallet);
+    releaseLwsApiKey(walletId, entry);
     manager->closeWallet(entry.wallet);
     g_wallets.erase(it);
   }
@@ -528,23 +1362,394 @@ std::string deleteWallet(const std::vector<std::string> &args) {
   return "ok";
 }
 
+/** Magic bytes and current version for wallet backup blobs. */
+static const char BACKUP_MAGIC[4] = { 'M', 'L', 'W', 'B' };
+static const uint8_t BACKUP_VERSION = 1;
+static const size_t BACKUP_HEADER_SIZE =
+  sizeof(BACKUP_MAGIC) + 1 + crypto_pwhash_SALTBYTES + crypto_aead_xchacha20poly1305_ietf_NPUBBYTES;
+
+/** Helper to read a whole file, or "" if it does not exist. */
+static std::string readFileOrEmpty(const std::string& path) {
+  std::ifstream file(path, std::ios::binary);
+  if (!file.is_open()) return "";
+  return std::string((std::istreambuf_iterator<char>(file)), std::istreambuf_iterator<char>());
+}
+
+/** Helper to write a whole file. */
+static void writeFileOrThrow(const std::string& path, const std::string& contents) {
+  std::ofstream file(path, std::ios::binary);
+  if (!file.is_open()) {
+    throw MoneroError("WALLET_ERROR", "Failed to create " + path);
+  }
+  file.write(contents.data(), contents.size());
+  if (!file.good()) {
+    throw MoneroError("WALLET_ERROR", "Failed to write " + path);
+  }
+}
+
+/** Helper to append a length-prefixed field to a backup payload. */
+static void appendBackupField(std::string& out, const std::string& field) {
+  uint32_t size = static_cast<uint32_t>(field.size());
+  for (int i = 0; i < 4; ++i) out += static_cast<char>((size >> (8 * i)) & 0xff);
+  out += field;
+}
+
+/** Helper to read the next length-prefixed field from a backup payload. */
+static std::string readBackupField(const std::string& in, size_t& offset) {
+  if (in.size() - offset < 4) {
+    throw MoneroError("INVALID_ARGUMENT", "Truncated wallet backup");
+  }
+  uint32_t size = 0;
+  for (int i = 0; i < 4; ++i) size |= static_cast<uint32_t>(static_cast<uint8_t>(in[offset + i])) << (8 * i);
+  offset += 4;
+  if (in.size() - offset < size) {
+    throw MoneroError("INVALID_ARGUMENT", "Truncated wallet backup");
+  }
+  std::string field = in.substr(offset, size);
+  offset += size;
+  return field;
+}
+
+/** Wipes a string holding wallet secrets when it goes out of scope. */
+class WipeOnExit {
+public:
+  explicit WipeOnExit(std::string& secret) : m_secret(secret) {}
+  ~WipeOnExit() {
+    if (!m_secret.empty()) sodium_memzero(&m_secret[0], m_secret.size());
+  }
+  WipeOnExit(const WipeOnExit&) = delete;
+  WipeOnExit& operator=(const WipeOnExit&) = delete;
+
+private:
+  std::string& m_secret;
+};
+
+/** Helper to derive a backup encryption key from a password (Argon2id). */
+static void deriveBackupKey(
+  const std::string& password,
+  const unsigned char* salt,
+  unsigned char (&key)[crypto_aead_xchacha20poly1305_ietf_KEYBYTES]
+) {
+  if (crypto_pwhash(
+    key, sizeof(key), password.data(), password.size(), salt,
+    crypto_pwhash_OPSLIMIT_INTERACTIVE, crypto_pwhash_MEMLIMIT_INTERACTIVE,
+    crypto_pwhash_ALG_ARGON2ID13) != 0) {
+    throw MoneroError("WALLET_ERROR", "Out of memory deriving backup key");
+  }
+}
+
+/** Helper to name a network type the way the JS side does. */
+static std::string nettypeName(Monero::NetworkType nettype) {
+  switch (nettype) {
+    case Monero::TESTNET: return "TESTNET";
+    case Monero::STAGENET: return "STAGENET";
+    default: return "MAINNET";
+  }
+}
+
 /**
- * Get all transactions with pagination.
- * Args: walletId, page (0-indexed), pageSize, sort ("asc" or "desc")
- * Returns: JSON with transactions array, totalCount, page, pageSize
+ * Export an open wallet as a single encrypted, versioned blob.
+ * The blob holds the keys file (still encrypted with the wallet password),
+ * the cache (with transaction notes), and the wallet's metadata.
+ * Format: base64("MLWB" | version | salt | nonce | XChaCha20-Poly1305 payload),
+ * with the key derived from the backup password using Argon2id.
+ * Args: walletId, backupPassword
+ * Returns: Base64 backup blob
  */
-std::string getAllTransactions(const std::vector<std::string> &args) {
+std::string exportWalletBackup(const std::vector<std::string> &args) {
   std::string walletId = args[0];
-  int page = std::stoi(args[1]);
-  int pageSize = std::stoi(args[2]);
-  bool ascending = (args[3] == "asc");
+  std::string backupPassword = args[1];
   
-  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  Monero::Wallet* wallet = entry.wallet;
   
-  Monero::TransactionHistory* history = wallet->history();
-  history->refresh();
-  std::vector<Monero::TransactionInfo*> txs = history->getAll();
+  // Flush the cache, so the backup includes everything synced so far:
+  storeWallet(wallet);
+  checkWalletStatus(wallet, "Failed to save wallet");
+  
+  std::string keys = readFileOrEmpty(entry.path + ".keys");
+  if (keys.empty()) {
+    throw MoneroError("WALLET_ERROR", "Failed to read wallet keys file");
+  }
+  
+  std::string payload;
+  appendBackupField(payload, entry.backend);
+  appendBackupField(payload, std::to_string(static_cast<int>(wallet->nettype())));
+  appendBackupField(payload, std::to_string(wallet->getRefreshFromBlockHeight()));
+  appendBackupField(payload, wallet->address(0, 0));
+  appendBackupField(payload, keys);
+  appendBackupField(payload, readFileOrEmpty(entry.path));
+  
+  std::string blob(BACKUP_HEADER_SIZE, '\0');
+  unsigned char* header = reinterpret_cast<unsigned char*>(&blob[0]);
+  std::memcpy(header, BACKUP_MAGIC, sizeof(BACKUP_MAGIC));
+  header[sizeof(BACKUP_MAGIC)] = BACKUP_VERSION;
+  unsigned char* salt = header + sizeof(BACKUP_MAGIC) + 1;
+  unsigned char* nonce = salt + crypto_pwhash_SALTBYTES;
+  randombytes_buf(salt, crypto_pwhash_SALTBYTES);
+  randombytes_buf(nonce, crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+  
+  unsigned char key[crypto_aead_xchacha20poly1305_ietf_KEYBYTES];
+  deriveBackupKey(backupPassword, salt, key);
+  
+  std::string ciphertext(payload.size() + crypto_aead_xchacha20poly1305_ietf_ABYTES, '\0');
+  unsigned long long ciphertextSize = 0;
+  crypto_aead_xchacha20poly1305_ietf_encrypt(
+    reinterpret_cast<unsigned char*>(&ciphertext[0]), &ciphertextSize,
+    reinterpret_cast<const unsigned char*>(payload.data()), payload.size(),
+    header, BACKUP_HEADER_SIZE, nullptr, nonce, key);
+  sodium_memzero(key, sizeof(key));
+  sodium_memzero(&payload[0], payload.size());
+  blob += ciphertext.substr(0, ciphertextSize);
+  
+  std::string base64(sodium_base64_encoded_len(blob.size(), sodium_base64_VARIANT_ORIGINAL), '\0');
+  sodium_bin2base64(
+    &base64[0], base64.size(),
+    reinterpret_cast<const unsigned char*>(blob.data()), blob.size(),
+    sodium_base64_VARIANT_ORIGINAL);
+  base64.resize(std::strlen(base64.c_str()));
+  return base64;
+}
+
+/**
+ * Restore wallet files from an exportWalletBackup blob, without syncing.
+ * Open the result with openWallet, using the original wallet password and
+ * the returned backend; the cache means no rescan is needed.
+ * Args: documentDirectory, walletId, blob, backupPassword
+ * Returns: JSON with backend, nettype, restoreHeight, and address
+ */
+std::string importWalletBackup(const std::vector<std::string> &args) {
+  std::string documentDirectory = args[0];
+  std::string walletId = args[1];
+  std::string base64 = args[2];
+  std::string backupPassword = args[3];
+  
+  requireSafeWalletId(walletId);
+  if (g_wallets.find(walletId) != g_wallets.end()) {
+    throw MoneroError("WALLET_ERROR", "Close the wallet before importing over it");
+  }
+  
+  std::string blob(base64.size(), '\0');
+  size_t blobSize = 0;
+  if (sodium_base642bin(
+    reinterpret_cast<unsigned char*>(&blob[0]), blob.size(), base64.data(), base64.size(),
+    " \r\n", &blobSize, nullptr, sodium_base64_VARIANT_ORIGINAL) != 0) {
+    throw MoneroError("INVALID_ARGUMENT", "Wallet backup is not valid base64");
+  }
+  blob.resize(blobSize);
+  
+  if (blob.size() < BACKUP_HEADER_SIZE + crypto_aead_xchacha20poly1305_ietf_ABYTES ||
+      std::memcmp(blob.data(), BACKUP_MAGIC, sizeof(BACKUP_MAGIC)) != 0) {
+    throw MoneroError("INVALID_ARGUMENT", "Not a wallet backup");
+  }
+  const unsigned char* header = reinterpret_cast<const unsigned char*>(blob.data());
+  if (header[sizeof(BACKUP_MAGIC)] != BACKUP_VERSION) {
+    throw MoneroError("INVALID_ARGUMENT", "Unsupported wallet backup version " + std::to_string(header[sizeof(BACKUP_MAGIC)]));
+  }
+  const unsigned char* salt = header + sizeof(BACKUP_MAGIC) + 1;
+  const unsigned char* nonce = salt + crypto_pwhash_SALTBYTES;
+  
+  unsigned char key[crypto_aead_xchacha20poly1305_ietf_KEYBYTES];
+  deriveBackupKey(backupPassword, salt, key);
+  
+  const unsigned char* ciphertext = header + BACKUP_HEADER_SIZE;
+  size_t ciphertextSize = blob.size() - BACKUP_HEADER_SIZE;
+  std::string payload(ciphertextSize, '\0');
+  unsigned long long payloadSize = 0;
+  int result = crypto_aead_xchacha20poly1305_ietf_decrypt(
+    reinterpret_cast<unsigned char*>(&payload[0]), &payloadSize, nullptr,
+    ciphertext, ciphertextSize, header, BACKUP_HEADER_SIZE, nonce, key);
+  sodium_memzero(key, sizeof(key));
+  WipeOnExit wipePayload(payload);
+  if (result != 0) {
+    throw MoneroError("WRONG_PASSWORD", "Wrong backup password, or corrupted backup");
+  }
+  payload.resize(payloadSize);
+  
+  size_t offset = 0;
+  std::string backend = readBackupField(payload, offset);
+  std::string nettype = readBackupField(payload, offset);
+  std::string restoreHeight = readBackupField(payload, offset);
+  std::string address = readBackupField(payload, offset);
+  std::string keys = readBackupField(payload, offset);
+  WipeOnExit wipeKeys(keys);
+  std::string cache = readBackupField(payload, offset);
+  WipeOnExit wipeCache(cache);
+  
+  // Check every field before writing anything:
+  if (backend != "lws" && backend != "monerod") {
+    throw MoneroError("INVALID_ARGUMENT", "Unknown backend in wallet backup: " + backend);
+  }
+  if (nettype != "0" && nettype != "1" && nettype != "2") {
+    throw MoneroError("INVALID_ARGUMENT", "Unknown network type in wallet backup: " + nettype);
+  }
+  Monero::NetworkType network = static_cast<Monero::NetworkType>(std::stoi(nettype));
+  std::optional<uint64_t> height = parseOptionalNumber(restoreHeight);
+  if (!height) {
+    throw MoneroError("INVALID_ARGUMENT", "Missing restore height in wallet backup");
+  }
+  if (!Monero::Wallet::addressValid(address, network)) {
+    throw MoneroError("INVALID_ARGUMENT", "Invalid address in wallet backup");
+  }
+  if (keys.empty()) {
+    throw MoneroError("INVALID_ARGUMENT", "Wallet backup has no keys file");
+  }
+  
+  std::string path = documentDirectory + "/" + backend + "_" + walletId;
+  if (getWalletManager(backend)->walletExists(path)) {
+    throw MoneroError("WALLET_ERROR", "A wallet with this id already exists");
+  }
+  
+  // Write under temporary names, then rename, so a failed import leaves
+  // nothing behind. The keys file goes last, since it makes the wallet exist:
+  std::vector<std::pair<std::string, const std::string*>> files;
+  if (!cache.empty()) files.push_back({ path, &cache });
+  files.push_back({ path + ".address.txt", &address });
+  files.push_back({ path + ".keys", &keys });
+  size_t renamed = 0;
+  try {
+    for (const auto& file : files) writeFileOrThrow(file.first + ".importing", *file.second);
+    for (; renamed < files.size(); ++renamed) {
+      const std::string& name = files[renamed].first;
+      if (std::rename((name + ".importing").c_str(), name.c_str()) != 0) {
+        throw MoneroError("WALLET_ERROR", "Failed to write " + name);
+      }
+    }
+  } catch (...) {
+    for (size_t i = 0; i < files.size(); ++i) {
+      std::string name = i < renamed ? files[i].first : files[i].first + ".importing";
+      std::remove(name.c_str());
+    }
+    throw;
+  }
   
+  std::string json = "{";
+  json += "\"backend\":\"" + jsonEscape(backend) + "\",";
+  json += "\"nettype\":\"" + nettypeName(network) + "\",";
+  json += "\"restoreHeight\":" + std::to_string(*height) + ",";
+  json += "\"address\":\"" + jsonEscape(address) + "\"";
+  json += "}";
+  return json;
+}
+
+/**
+ * Change the password that encrypts an open wallet's files.
+ * The keys and cache files are rewritten with the new password.
+ * Args: walletId, oldPassword, newPassword
+ * Returns: "ok"
+ */
+std::string changeWalletPassword(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string oldPassword = args[1];
+  std::string newPassword = args[2];
+  
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  Monero::WalletManager* manager = getWalletManager(entry.backend);
+  if (!manager->verifyWalletPassword(entry.path + ".keys", oldPassword, entry.wallet->watchOnly())) {
+    throw MoneroError("WRONG_PASSWORD", "Wrong wallet password");
+  }
+  
+  entry.wallet->pauseRefresh();
+  bool success = entry.wallet->setPassword(newPassword);
+  restartRefresh(entry.wallet);
+  if (!success) {
+    checkWalletStatus(entry.wallet, "Failed to change password");
+    throw MoneroError("WALLET_ERROR", "Failed to change password");
+  }
+  return "ok";
+}
+
+/**
+ * Check a wallet password by decrypting its keys file, without opening or
+ * syncing the wallet. The wallet may be an open walletId, a closed
+ * walletId plus its backend, or a path to a wallet file.
+ * Args: documentDirectory, walletIdOrPath, backend ("" if unknown), password
+ * Returns: "true" or "false"
+ */
+std::string verifyWalletPassword(const std::vector<std::string> &args) {
+  std::string documentDirectory = args[0];
+  std::string walletIdOrPath = args[1];
+  std::string backend = args[2];
+  std::string password = args[3];
+  
+  std::string path;
+  if (walletIdOrPath.find('/') != std::string::npos) {
+    path = walletIdOrPath;
+  } else {
+    auto it = g_wallets.find(walletIdOrPath);
+    if (it != g_wallets.end()) {
+      path = it->second.path;
+      backend = it->second.backend;
+    } else if (!backend.empty()) {
+      requireSafeWalletId(walletIdOrPath);
+      path = documentDirectory + "/" + backend + "_" + walletIdOrPath;
+    } else {
+      throw MoneroError("WALLET_NOT_FOUND", "Wallet not open, and no backend given: " + walletIdOrPath);
+    }
+  }
+  
+  std::ifstream keysFile(path + ".keys");
+  if (!keysFile.good()) {
+    throw MoneroError("WALLET_NOT_FOUND", "No wallet keys file at " + path);
+  }
+  
+  // Skip the spend key check, so this also works for view-only wallets.
+  // Decrypting the keys file is what actually tests the password:
+  Monero::WalletManager* manager = getWalletManager(backend);
+  bool valid = manager->verifyWalletPassword(path + ".keys", password, true);
+  return valid ? "true" : "false";
+}
+
+/** Helper to serialize a single history entry. */
+static std::string transactionJson(Monero::Wallet* wallet, Monero::TransactionInfo* tx) {
+  std::string json;
+  json += "{\"hash\":\"" + jsonEscape(tx->hash()) + "\",";
+  json += "\"direction\":" + std::to_string(tx->direction()) + ",";
+  json += "\"isPending\":" + std::string(tx->isPending() ? "true" : "false") + ",";
+  json += "\"isFailed\":" + std::string(tx->isFailed() ? "true" : "false") + ",";
+  json += "\"isCoinbase\":" + std::string(tx->isCoinbase() ? "true" : "false") + ",";
+  json += "\"amount\":\"" + std::to_string(tx->amount()) + "\",";
+  json += "\"fee\":\"" + std::to_string(tx->fee()) + "\",";
+  json += "\"blockHeight\":" + std::to_string(tx->blockHeight()) + ",";
+  json += "\"confirmations\":" + std::to_string(tx->confirmations()) + ",";
+  json += "\"timestamp\":" + std::to_string(tx->timestamp()) + ",";
+  json += "\"paymentId\":\"" + jsonEscape(tx->paymentId()) + "\",";
+  json += "\"description\":\"" + jsonEscape(tx->description()) + "\",";
+  json += "\"label\":\"" + jsonEscape(tx->label()) + "\",";
+  json += "\"unlockTime\":" + std::to_string(tx->unlockTime()) + ",";
+  json += "\"subaddrAccount\":" + std::to_string(tx->subaddrAccount()) + ",";
+  json += "\"subaddrIndex\":[";
+  bool firstIndex = true;
+  for (uint32_t index : tx->subaddrIndex()) {
+    if (!firstIndex) json += ",";
+    json += std::to_string(index);
+    firstIndex = false;
+  }
+  json += "]";
+  
+  try {
+    std::string txKey = wallet->getTxKey(tx->hash());
+    if (!txKey.empty()) {
+      json += ",\"txKey\":\"" + jsonEscape(txKey) + "\"";
+    }
+  } catch (...) {
+  }
+  
+  json += "}";
+  return json;
+}
+
+/**
+ * Helper to sort history entries (pending always last) and serialize
+ * one page of them, along with the total count.
+ */
+static std::string transactionsPageJson(
+  Monero::Wallet* wallet,
+  std::vector<Monero::TransactionInfo*> txs,
+  int page,
+  int pageSize,
+  bool ascending
+) {
   std::sort(txs.begin(), txs.end(), [ascending](Monero::TransactionInfo* a, Monero::TransactionInfo* b) {
     if (a->isPending() != b->isPending()) return !a->isPending();
     return ascending ? a->blockHeight() < b->blockHeight() : a->blockHeight() > b->blockHeight();
@@ -557,32 +1762,7 @@ std::string getAllTransactions(const std::vector<std::string> &args) {
   std::string json = "{\"transactions\":[";
   for (int i = startIndex; i < endIndex; i++) {
     if (i > startIndex) json += ",";
-    Monero::TransactionInfo* tx = txs[i];
-    json += "{\"hash\":\"" + jsonEscape(tx->hash()) + "\",";
-    json += "\"direction\":" + std::to_string(tx->direction()) + ",";
-    json += "\"isPending\":" + std::string(tx->isPending() ? "true" : "false") + ",";
-    json += "\"isFailed\":" + std::string(tx->isFailed() ? "true" : "false") + ",";
-    json += "\"isCoinbase\":" + std::string(tx->isCoinbase() ? "true" : "false") + ",";
-    json += "\"amount\":\"" + std::to_string(tx->amount()) + "\",";
-    json += "\"fee\":\"" + std::to_string(tx->fee()) + "\",";
-    json += "\"blockHeight\":" + std::to_string(tx->blockHeight()) + ",";
-    json += "\"confirmations\":" + std::to_string(tx->confirmations()) + ",";
-    json += "\"timestamp\":" + std::to_string(tx->timestamp()) + ",";
-    json += "\"paymentId\":\"" + jsonEscape(tx->paymentId()) + "\",";
-    json += "\"description\":\"" + jsonEscape(tx->description()) + "\",";
-    json += "\"label\":\"" + jsonEscape(tx->label()) + "\",";
-    json += "\"unlockTime\":" + std::to_string(tx->unlockTime()) + ",";
-    json += "\"subaddrAccount\":" + std::to_string(tx->subaddrAccount());
-    
-    try {
-      std::string txKey = wallet->getTxKey(tx->hash());
-      if (!txKey.empty()) {
-        json += ",\"txKey\":\"" + jsonEscape(txKey) + "\"";
-      }
-    } catch (...) {
-    }
-    
-    json += "}";
+    json += transactionJson(wallet, txs[i]);
   }
   json += "],\"totalCount\":" + std::to_string(totalCount) + ",";
   json += "\"page\":" + std::to_string(page) + ",\"pageSize\":" + std::to_string(pageSize) + "}";
@@ -590,104 +1770,1175 @@ std::string getAllTransactions(const std::vector<std::string> &args) {
   return json;
 }
 
-/** Helper to split a comma-separated string. */
-static std::vector<std::string> splitString(const std::string& str, char delimiter) {
-  std::vector<std::string> tokens;
-  std::stringstream ss(str);
-  std::string token;
-  while (std::getline(ss, token, delimiter)) {
-    tokens.push_back(token);
-  }
-  return tokens;
+/**
+ * Get all transactions with pagination.
+ * Args: walletId, page (0-indexed), pageSize, sort ("asc" or "desc")
+ * Returns: JSON with transactions array, totalCount, page, pageSize
+ */
+std::string getAllTransactions(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  int page = std::stoi(args[1]);
+  int pageSize = std::stoi(args[2]);
+  bool ascending = (args[3] == "asc");
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  
+  Monero::TransactionHistory* history = wallet->history();
+  history->refresh();
+  return transactionsPageJson(wallet, history->getAll(), page, pageSize, ascending);
+}
+
+/**
+ * Query transactions matching a filter, with pagination.
+ * Every filter argument may be "" to leave it unset. States is a
+ * comma-separated list of "pending", "failed", and "confirmed".
+ * The search text matches description or label, ignoring case.
+ * Args: walletId, direction, accountIndex, subaddrIndex, minHeight, maxHeight,
+ *   minTimestamp, maxTimestamp, states, paymentId, minAmount, search,
+ *   page (0-indexed), pageSize, sort ("asc" or "desc")
+ * Returns: JSON with transactions array, totalCount (matching the filter), page, pageSize
+ */
+std::string queryTransactions(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::optional<uint64_t> direction = parseOptionalNumber(args[1]);
+  std::optional<uint64_t> accountIndex = parseOptionalNumber(args[2]);
+  std::optional<uint64_t> subaddrIndex = parseOptionalNumber(args[3]);
+  std::optional<uint64_t> minHeight = parseOptionalNumber(args[4]);
+  std::optional<uint64_t> maxHeight = parseOptionalNumber(args[5]);
+  std::optional<uint64_t> minTimestamp = parseOptionalNumber(args[6]);
+  std::optional<uint64_t> maxTimestamp = parseOptionalNumber(args[7]);
+  std::vector<std::string> states = splitString(args[8], ',');
+  std::string paymentId = args[9];
+  std::optional<uint64_t> minAmount = parseOptionalNumber(args[10]);
+  std::string search = args[11];
+  int page = std::stoi(args[12]);
+  int pageSize = std::stoi(args[13]);
+  bool ascending = (args[14] == "asc");
+  
+  for (const auto& state : states) {
+    if (state != "pending" && state != "failed" && state != "confirmed") {
+      throw MoneroError("INVALID_ARGUMENT", "Invalid transaction state: " + state);
+    }
+  }
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  
+  Monero::TransactionHistory* history = wallet->history();
+  history->refresh();
+  
+  std::vector<Monero::TransactionInfo*> matches;
+  for (Monero::TransactionInfo* tx : history->getAll()) {
+    if (direction && static_cast<uint64_t>(tx->direction()) != *direction) continue;
+    if (accountIndex && tx->subaddrAccount() != *accountIndex) continue;
+    if (subaddrIndex && tx->subaddrIndex().count(static_cast<uint32_t>(*subaddrIndex)) == 0) continue;
+    if (minHeight && tx->blockHeight() < *minHeight) continue;
+    if (maxHeight && tx->blockHeight() > *maxHeight) continue;
+    if (minTimestamp && static_cast<uint64_t>(tx->timestamp()) < *minTimestamp) continue;
+    if (maxTimestamp && static_cast<uint64_t>(tx->timestamp()) > *maxTimestamp) continue;
+    if (!states.empty()) {
+      std::string state = tx->isFailed() ? "failed" : tx->isPending() ? "pending" : "confirmed";
+      if (std::find(states.begin(), states.end(), state) == states.end()) continue;
+    }
+    if (!paymentId.empty() && tx->paymentId() != paymentId) continue;
+    if (minAmount && tx->amount() < *minAmount) continue;
+    if (!search.empty() && !containsNoCase(tx->description(), search) && !containsNoCase(tx->label(), search)) {
+      continue;
+    }
+    matches.push_back(tx);
+  }
+  
+  return transactionsPageJson(wallet, matches, page, pageSize, ascending);
+}
+
+/**
+ * Number of confirmations after which a transaction stops counting as
+ * changed on every new block (the default unlock window).
+ */
+static const uint64_t CHANGE_FEED_CONFIRMATIONS = 10;
+
+/** Cache attribute that persists the change feed across sessions. */
+static const char* CHANGE_FEED_ATTRIBUTE = "react-native-monero-lwsf.changeFeed";
+
+/**
+ * Gap added to the sequence when loading a persisted change feed. The cache
+ * may have been saved before the latest tokens were handed out, so this
+ * keeps new sequence numbers above every earlier token. At worst, changes
+ * from just before the app stopped are reported twice.
+ */
+static const uint64_t CHANGE_FEED_SEQUENCE_GAP = 1ull << 32;
+
+/**
+ * Number of removed transactions the change feed remembers. Forgetting
+ * older ones raises the feed's floor, and tokens below it get a reset.
+ */
+static const size_t CHANGE_FEED_MAX_REMOVED = 256;
+
+/** Helper to fingerprint the fields of a transaction that can change. */
+static std::string transactionFingerprint(Monero::TransactionInfo* tx) {
+  std::string fingerprint;
+  fingerprint += tx->isPending() ? "p" : "-";
+  fingerprint += tx->isFailed() ? "f" : "-";
+  fingerprint += ":" + std::to_string(tx->blockHeight());
+  fingerprint += ":" + std::to_string(std::min<uint64_t>(tx->confirmations(), CHANGE_FEED_CONFIRMATIONS));
+  fingerprint += ":" + std::to_string(tx->amount());
+  fingerprint += ":" + std::to_string(tx->fee());
+  fingerprint += ":" + tx->description();
+  fingerprint += ":" + tx->label();
+  return epee::string_tools::pod_to_hex(crypto::cn_fast_hash(fingerprint.data(), fingerprint.size()));
+}
+
+/**
+ * Helper to restore the change feed saved in the wallet cache, if any.
+ * The format is one "epoch sequence floor" line, then one "txid fingerprint
+ * sequence" line per transaction, with "-" as the fingerprint of removed ones.
+ */
+static void loadChangeFeed(WalletEntry& entry) {
+  entry.changeFeedLoaded = true;
+  std::istringstream in(entry.wallet->getCacheAttribute(CHANGE_FEED_ATTRIBUTE));
+  std::string epoch;
+  uint64_t sequence = 0;
+  uint64_t floor = 0;
+  if (!(in >> epoch >> sequence >> floor)) return;
+  
+  std::string hash;
+  std::string fingerprint;
+  uint64_t changed = 0;
+  while (in >> hash >> fingerprint >> changed) {
+    if (fingerprint == "-") {
+      entry.removedLog[hash] = changed;
+    } else {
+      entry.changeLog[hash] = { fingerprint, changed };
+    }
+  }
+  entry.changeEpoch = epoch;
+  entry.changeSequence = sequence + CHANGE_FEED_SEQUENCE_GAP;
+  entry.changeFloor = floor;
+}
+
+/** Helper to save the change feed into the wallet cache, for the next store. */
+static void saveChangeFeed(const WalletEntry& entry) {
+  std::string out = entry.changeEpoch + " " + std::to_string(entry.changeSequence) + " ";
+  out += std::to_string(entry.changeFloor) + "\n";
+  for (const auto& change : entry.changeLog) {
+    out += change.first + " " + change.second.first + " " + std::to_string(change.second.second) + "\n";
+  }
+  for (const auto& removed : entry.removedLog) {
+    out += removed.first + " - " + std::to_string(removed.second) + "\n";
+  }
+  entry.wallet->setCacheAttribute(CHANGE_FEED_ATTRIBUTE, out);
+}
+
+/**
+ * Get the transactions added or changed since a token from an earlier call.
+ * Confirmations only count as changes up to CHANGE_FEED_CONFIRMATIONS.
+ * Tokens stay valid across sessions, since the feed is saved with the
+ * wallet cache. An empty or unrecognized token (such as one from before a
+ * restore), or one older than the removals the feed still remembers,
+ * returns the full history with reset set to true.
+ * Args: walletId, sinceToken
+ * Returns: JSON with transactions array, removed (txids), nextToken, reset
+ */
+std::string getTransactionChanges(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string sinceToken = args[1];
+  
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  Monero::Wallet* wallet = entry.wallet;
+  if (!entry.changeFeedLoaded) loadChangeFeed(entry);
+  
+  Monero::TransactionHistory* history = wallet->history();
+  history->refresh();
+  std::vector<Monero::TransactionInfo*> txs = history->getAll();
+  
+  // Bring the change log up to date:
+  uint64_t startSequence = entry.changeSequence;
+  std::set<std::string> seen;
+  for (Monero::TransactionInfo* tx : txs) {
+    std::string hash = tx->hash();
+    std::string fingerprint = transactionFingerprint(tx);
+    seen.insert(hash);
+    entry.removedLog.erase(hash);
+    auto it = entry.changeLog.find(hash);
+    if (it == entry.changeLog.end() || it->second.first != fingerprint) {
+      entry.changeLog[hash] = { fingerprint, ++entry.changeSequence };
+    }
+  }
+  for (auto it = entry.changeLog.begin(); it != entry.changeLog.end();) {
+    if (seen.count(it->first) == 0) {
+      entry.removedLog[it->first] = ++entry.changeSequence;
+      it = entry.changeLog.erase(it);
+    } else {
+      ++it;
+    }
+  }
+  while (entry.removedLog.size() > CHANGE_FEED_MAX_REMOVED) {
+    auto oldest = std::min_element(entry.removedLog.begin(), entry.removedLog.end(),
+      [](const auto& a, const auto& b) { return a.second < b.second; });
+    entry.changeFloor = std::max(entry.changeFloor, oldest->second);
+    entry.removedLog.erase(oldest);
+  }
+  if (entry.changeSequence != startSequence) saveChangeFeed(entry);
+  
+  // Decode the token, which is "epoch:sequence":
+  bool reset = true;
+  uint64_t since = 0;
+  std::string prefix = entry.changeEpoch + ":";
+  if (sinceToken.compare(0, prefix.size(), prefix) == 0) {
+    try {
+      since = std::stoull(sinceToken.substr(prefix.size()));
+      reset = since > entry.changeSequence || since < entry.changeFloor;
+    } catch (...) {
+    }
+    if (reset) since = 0;
+  }
+  
+  std::string json = "{\"transactions\":[";
+  bool first = true;
+  for (Monero::TransactionInfo* tx : txs) {
+    if (entry.changeLog[tx->hash()].second <= since) continue;
+    if (!first) json += ",";
+    json += transactionJson(wallet, tx);
+    first = false;
+  }
+  json += "],\"removed\":[";
+  first = true;
+  for (const auto& removed : entry.removedLog) {
+    if (reset || removed.second <= since) continue;
+    if (!first) json += ",";
+    json += "\"" + jsonEscape(removed.first) + "\"";
+    first = false;
+  }
+  json += "],";
+  json += "\"nextToken\":\"" + jsonEscape(prefix + std::to_string(entry.changeSequence)) + "\",";
+  json += "\"reset\":" + std::string(reset ? "true" : "false");
+  json += "}";
+  return json;
+}
+
+/** Helper to require a transaction hash in hex. */
+static void requireTxid(const std::string& txid) {
+  bool isHex = std::all_of(txid.begin(), txid.end(), [](char c) { return std::isxdigit(static_cast<unsigned char>(c)); });
+  if (txid.size() != 64 || !isHex) {
+    throw MoneroError("INVALID_ARGUMENT", "Invalid transaction id: " + txid);
+  }
+}
+
+/**
+ * Attach a note to a transaction. Notes live in the wallet cache, which is
+ * saved immediately, and appear as the description in transaction history.
+ * Args: walletId, txid, note
+ * Returns: "ok"
+ */
+std::string setTransactionNote(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string txid = args[1];
+  std::string note = args[2];
+  requireTxid(txid);
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  if (!wallet->setUserNote(txid, note)) {
+    throw MoneroError("WALLET_ERROR", "Failed to set note: " + wallet->errorString());
+  }
+
+  storeWallet(wallet);
+  return "ok";
+}
+
+/**
+ * Read the notes attached to some transactions.
+ * Args: walletId, txids (comma-separated)
+ * Returns: JSON object mapping each txid to its note ("" if none)
+ */
+std::string getTransactionNotes(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::vector<std::string> txids = splitString(args[1], ',');
+  for (const auto& txid : txids) requireTxid(txid);
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  
+  std::string json = "{";
+  for (size_t i = 0; i < txids.size(); ++i) {
+    if (i > 0) json += ",";
+    json += "\"" + jsonEscape(txids[i]) + "\":\"" + jsonEscape(wallet->getUserNote(txids[i])) + "\"";
+  }
+  json += "}";
+  return json;
+}
+
+/** Helper to require that an account index exists in the wallet. */
+static void requireAccountIndex(Monero::Wallet* wallet, uint32_t accountIndex) {
+  if (accountIndex >= wallet->numSubaddressAccounts()) {
+    throw MoneroError("INVALID_ARGUMENT", "Account index out of range");
+  }
+}
+
+/** Helper to build the JSON for a single subaddress account. */
+static std::string accountJson(Monero::Wallet* wallet, uint32_t accountIndex) {
+  std::string json = "{";
+  json += "\"index\":" + std::to_string(accountIndex) + ",";
+  json += "\"address\":\"" + jsonEscape(wallet->address(accountIndex, 0)) + "\",";
+  json += "\"label\":\"" + jsonEscape(wallet->getSubaddressLabel(accountIndex, 0)) + "\",";
+  json += "\"balance\":\"" + std::to_string(wallet->balance(accountIndex)) + "\",";
+  json += "\"unlockedBalance\":\"" + std::to_string(wallet->unlockedBalance(accountIndex)) + "\"";
+  json += "}";
+  return json;
+}
+
+/** Helper to build the JSON for a single subaddress. */
+static std::string subaddressJson(Monero::Wallet* wallet, uint32_t accountIndex, uint32_t addressIndex) {
+  std::string json = "{";
+  json += "\"accountIndex\":" + std::to_string(accountIndex) + ",";
+  json += "\"index\":" + std::to_string(addressIndex) + ",";
+  json += "\"address\":\"" + jsonEscape(wallet->address(accountIndex, addressIndex)) + "\",";
+  json += "\"label\":\"" + jsonEscape(wallet->getSubaddressLabel(accountIndex, addressIndex)) + "\"";
+  json += "}";
+  return json;
+}
+
+/**
+ * List the wallet's subaddress accounts with their balances.
+ * Args: walletId
+ * Returns: JSON array of accounts (index, address, label, balance, unlockedBalance)
+ */
+std::string getAccounts(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+
+  std::string json = "[";
+  for (uint32_t i = 0; i < wallet->numSubaddressAccounts(); ++i) {
+    if (i > 0) json += ",";
+    json += accountJson(wallet, i);
+  }
+  json += "]";
+  return json;
+}
+
+/**
+ * Create a new subaddress account, and save the wallet.
+ * Args: walletId, label
+ * Returns: JSON for the new account
+ */
+std::string createAccount(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string label = args[1];
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+
+  wallet->addSubaddressAccount(label);
+  storeWallet(wallet);
+  return accountJson(wallet, wallet->numSubaddressAccounts() - 1);
+}
+
+/**
+ * List the subaddresses within an account.
+ * Args: walletId, accountIndex
+ * Returns: JSON array of subaddresses (accountIndex, index, address, label)
+ */
+std::string getSubaddresses(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  uint32_t accountIndex = std::stoul(args[1]);
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireAccountIndex(wallet, accountIndex);
+
+  std::string json = "[";
+  for (uint32_t i = 0; i < wallet->numSubaddresses(accountIndex); ++i) {
+    if (i > 0) json += ",";
+    json += subaddressJson(wallet, accountIndex, i);
+  }
+  json += "]";
+  return json;
+}
+
+/**
+ * Create a new subaddress within an account, and save the wallet.
+ * Args: walletId, accountIndex, label
+ * Returns: JSON for the new subaddress
+ */
+std::string createSubaddress(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  uint32_t accountIndex = std::stoul(args[1]);
+  std::string label = args[2];
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireAccountIndex(wallet, accountIndex);
+
+  wallet->addSubaddress(accountIndex, label);
+  storeWallet(wallet);
+  return subaddressJson(wallet, accountIndex, wallet->numSubaddresses(accountIndex) - 1);
+}
+
+/**
+ * Set the label of a subaddress, and save the wallet.
+ * Index 0 labels the account itself.
+ * Args: walletId, accountIndex, addressIndex, label
+ * Returns: "ok"
+ */
+std::string setSubaddressLabel(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  uint32_t accountIndex = std::stoul(args[1]);
+  uint32_t addressIndex = std::stoul(args[2]);
+  std::string label = args[3];
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireAccountIndex(wallet, accountIndex);
+  if (addressIndex >= wallet->numSubaddresses(accountIndex)) {
+    throw MoneroError("INVALID_ARGUMENT", "Subaddress index out of range");
+  }
+
+  wallet->setSubaddressLabel(accountIndex, addressIndex, label);
+  storeWallet(wallet);
+  return "ok";
+}
+
+/** Helper to parse comma-separated recipient addresses and atomic amounts. */
+static void parseRecipients(
+  const std::string& addressesStr,
+  const std::string& amountsStr,
+  std::vector<std::string>& addresses,
+  std::vector<uint64_t>& amounts
+) {
+  addresses = splitString(addressesStr, ',');
+  std::vector<std::string> amountStrs = splitString(amountsStr, ',');
+  
+  if (addresses.empty() || addresses.size() != amountStrs.size()) {
+    throw MoneroError("INVALID_ARGUMENT", "Addresses and amounts must have same length and not be empty");
+  }
+  
+  amounts.clear();
+  for (const auto& amt : amountStrs) {
+    try {
+      amounts.push_back(std::stoull(amt));
+    } catch (...) {
+      throw MoneroError("INVALID_AMOUNT", "Invalid amount: " + amt);
+    }
+  }
+}
+
+/** Helper to parse comma-separated subaddress indices. */
+static std::set<uint32_t> parseIndexSet(const std::string& str) {
+  std::set<uint32_t> indices;
+  for (const auto& token : splitString(str, ',')) {
+    try {
+      indices.insert(std::stoul(token));
+    } catch (...) {
+      throw MoneroError("INVALID_ARGUMENT", "Invalid subaddress index: " + token);
+    }
+  }
+  return indices;
+}
+
+/** Helper to reject or dispose a transaction that failed to build. */
+static Monero::PendingTransaction* checkPendingTransaction(
+  Monero::Wallet* wallet,
+  Monero::PendingTransaction* ptx
+) {
+  if (ptx == nullptr) {
+    throw MoneroError("TRANSACTION_ERROR", "Failed to create transaction");
+  }
+  
+  if (ptx->status() != Monero::PendingTransaction::Status_Ok) {
+    std::string error = ptx->errorString();
+    wallet->disposeTransaction(ptx);
+    throw MoneroError(classifyError(error, "TRANSACTION_ERROR"), "Transaction error: " + error);
+  }
+
+  return ptx;
+}
+
+/** Helper to refuse signing operations on view-only wallets. */
+static void requireSpendKey(Monero::Wallet* wallet) {
+  if (wallet->watchOnly()) {
+    throw MoneroError("VIEW_ONLY_WALLET", "View-only wallets cannot sign transactions");
+  }
+}
+
+/** Helper to find an output by key image. */
+static const Monero::CoinsInfo* findOutputOrThrow(Monero::Coins* coins, const std::string& keyImage) {
+  coins->refresh();
+  for (const Monero::CoinsInfo* coin : coins->getAll()) {
+    if (coin->keyImageKnown() && coin->keyImage() == keyImage) return coin;
+  }
+  throw MoneroError("INVALID_ARGUMENT", "No output with key image " + keyImage);
+}
+
+/** Helper to require outputs that coin selection could spend. */
+static void requireSpendableOutputs(Monero::Coins* coins, const std::set<std::string>& keyImages) {
+  for (const auto& keyImage : keyImages) {
+    const Monero::CoinsInfo* coin = findOutputOrThrow(coins, keyImage);
+    if (coin->spent()) {
+      throw MoneroError("INVALID_ARGUMENT", "Output already spent: " + keyImage);
+    }
+    if (coin->frozen()) {
+      throw MoneroError("INVALID_ARGUMENT", "Output is frozen: " + keyImage);
+    }
+  }
+}
+
+/**
+ * Freezes every unspent output outside a chosen set while in scope, and
+ * thaws them again afterwards. wallet2 treats chosen inputs as a hint and
+ * may add others, so this is what limits coin selection to the chosen ones.
+ * An empty set freezes nothing.
+ */
+class SpendOnlyOutputs {
+public:
+  SpendOnlyOutputs(Monero::Coins* coins, const std::set<std::string>& keyImages)
+    : m_coins(coins) {
+    if (keyImages.empty()) return;
+    coins->refresh();
+    std::vector<std::string> others;
+    for (const Monero::CoinsInfo* coin : coins->getAll()) {
+      if (coin->spent() || coin->frozen()) continue;
+      if (coin->keyImageKnown() && keyImages.count(coin->keyImage()) != 0) continue;
+      others.push_back(coin->pubKey());
+    }
+    for (const auto& pubKey : others) {
+      coins->setFrozen(pubKey);
+      m_frozen.push_back(pubKey);
+    }
+  }
+  ~SpendOnlyOutputs() {
+    for (const auto& pubKey : m_frozen) m_coins->thaw(pubKey);
+  }
+  SpendOnlyOutputs(const SpendOnlyOutputs&) = delete;
+  SpendOnlyOutputs& operator=(const SpendOnlyOutputs&) = delete;
+
+private:
+  Monero::Coins* const m_coins;
+  std::vector<std::string> m_frozen;
+};
+
+/**
+ * Helper to build a transaction in memory, pausing refresh while wallet2
+ * selects inputs. The result is signed unless the wallet is view-only. Passing std::nullopt amounts sweeps the account,
+ * optionally limited to some subaddresses. Given key images, only those
+ * outputs are spent, and every one of them must be unspent and unfrozen.
+ * The caller owns the result and must disposeTransaction() it.
+ */
+static Monero::PendingTransaction* buildTransaction(
+  Monero::Wallet* wallet,
+  const std::vector<std::string>& addresses,
+  const Monero::optional<std::vector<uint64_t>>& amounts,
+  int priority,
+  uint32_t accountIndex,
+  const std::set<uint32_t>& subaddrIndices = {},
+  const std::set<std::string>& keyImages = {}
+) {
+  for (const auto& address : addresses) {
+    if (!Monero::Wallet::addressValid(address, wallet->nettype())) {
+      throw MoneroError("INVALID_ADDRESS", "Invalid destination address: " + address);
+    }
+  }
+  requireSpendableOutputs(wallet->coins(), keyImages);
+  
+  LwsAccountScope lwsScope(wallet->address(0, 0));
+  wallet->pauseRefresh();
+  
+  Monero::PendingTransaction* ptx;
+  {
+    SpendOnlyOutputs spendOnly(wallet->coins(), keyImages);
+    ptx = wallet->createTransactionMultDest(
+      addresses,
+      "",
+      amounts,
+      0,
+      static_cast<Monero::PendingTransaction::Priority>(priority),
+      accountIndex,
+      subaddrIndices,
+      keyImages
+    );
+  }
+  
+  restartRefresh(wallet);
+  
+  return checkPendingTransaction(wallet, ptx);
+}
+
+/**
+ * Helper to serialize a signed transaction to hex and dispose of it.
+ * Sweeps may produce several transactions; they all travel in the same
+ * blob, and txid is the first of them.
+ */
+static std::string signedTransactionJson(
+  Monero::Wallet* wallet,
+  Monero::PendingTransaction* ptx,
+  const std::string& documentDirectory
+) {
+  std::vector<std::string> txIds = ptx->txid();
+  std::string txHash = txIds.empty() ? "" : txIds[0];
+  uint64_t fee = ptx->fee();
+  
+  TempFile tempFile(documentDirectory, "tx_signed");
+  
+  if (!ptx->commit(tempFile.path, true)) {
+    std::string error = ptx->errorString();
+    wallet->disposeTransaction(ptx);
+    throw MoneroError("TRANSACTION_ERROR", "Failed to save transaction: " + error);
+  }
+  
+  wallet->disposeTransaction(ptx);
+  
+  std::ifstream file(tempFile.path, std::ios::binary);
+  if (!file.is_open()) {
+    throw MoneroError("TRANSACTION_ERROR", "Failed to read signed transaction file");
+  }
+  std::string fileContents((std::istreambuf_iterator<char>(file)), std::istreambuf_iterator<char>());
+  file.close();
+  
+  std::string signedTxHex = epee::string_tools::buff_to_hex_nodelimer(fileContents);
+  
+  return "{\"txid\":\"" + txHash + "\",\"signedTxHex\":\"" + signedTxHex + "\",\"fee\":\"" + std::to_string(fee) + "\"}";
+}
+
+/**
+ * Estimate the fee for sending to the given recipients, without selecting
+ * inputs or signing. Like wallet2, this assumes a single input, so the result
+ * is a lower bound when the wallet must combine several outputs. The weight
+ * is approximate: it comes from fixed transaction parameters, not from the
+ * wallet's own settings, so it may differ from what createTransaction builds.
+ * Args: walletId, addresses (comma-separated), amounts (comma-separated), priority
+ * Returns: JSON with fee and weight
+ */
+std::string estimateFee(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string addressesStr = args[1];
+  std::string amountsStr = args[2];
+  int priority = std::stoi(args[3]);
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  
+  std::vector<std::string> addresses;
+  std::vector<uint64_t> amounts;
+  parseRecipients(addressesStr, amountsStr, addresses, amounts);
+
+  std::vector<std::pair<std::string, uint64_t>> destinations;
+  for (size_t i = 0; i < addresses.size(); ++i) {
+    destinations.emplace_back(addresses[i], amounts[i]);
+  }
+  uint64_t fee = wallet->estimateTransactionFee(
+    destinations, static_cast<Monero::PendingTransaction::Priority>(priority));
+
+  // Per-byte fees make fee = weight * base fee, so pricing the same shape of
+  // transaction at one atomic unit per byte (and no rounding) yields its
+  // weight. The shape matches WalletImpl::estimateTransactionFee: one input,
+  // one output per destination plus change, and a tx pubkey + encrypted
+  // payment id in tx_extra, using the current CLSAG / BP+ / view-tag format.
+  // Real transactions can differ, so this weight is only approximate.
+  const size_t RING_SIZE = 16;
+  const size_t EXTRA_SIZE = 33 + 11;
+  uint64_t weight = tools::wallet2::estimate_fee(
+    true, true, 1, RING_SIZE - 1, destinations.size() + 1, EXTRA_SIZE,
+    true, true, true, true, 1, 1);
+
+  std::string json = "{";
+  json += "\"fee\":\"" + std::to_string(fee) + "\",";
+  json += "\"weight\":" + std::to_string(weight);
+  json += "}";
+  return json;
+}
+
+/**
+ * Compute the exact amount a sweep to the given address would send after fees.
+ * This builds the sweep in memory to get exact numbers, but never writes or
+ * returns the signed transaction.
+ * Args: walletId, address, priority, accountIndex
+ * Returns: JSON with amount and fee
+ */
+std::string getMaxSpendable(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string address = args[1];
+  int priority = std::stoi(args[2]);
+  uint32_t accountIndex = std::stoul(args[3]);
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireAccountIndex(wallet, accountIndex);
+  requireSpendKey(wallet);
+  
+  Monero::PendingTransaction* ptx = buildTransaction(wallet, {address}, std::nullopt, priority, accountIndex);
+  uint64_t amount = ptx->amount();
+  uint64_t fee = ptx->fee();
+  wallet->disposeTransaction(ptx);
+
+  std::string json = "{";
+  json += "\"amount\":\"" + std::to_string(amount) + "\",";
+  json += "\"fee\":\"" + std::to_string(fee) + "\"";
+  json += "}";
+  return json;
+}
+
+/**
+ * Create a transaction (multi-recipient supported).
+ * When key images are given, only those outputs are spent.
+ * Args: walletId, addresses (comma-separated), amounts (comma-separated), priority, accountIndex,
+ *   keyImages (comma-separated, empty for automatic coin selection), documentDirectory
+ * Returns: JSON with txid, signedTxHex, and fee
+ */
+std::string createTransaction(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string addressesStr = args[1];
+  std::string amountsStr = args[2];
+  int priority = std::stoi(args[3]);
+  uint32_t accountIndex = std::stoul(args[4]);
+  std::vector<std::string> keyImages = splitString(args[5], ',');
+  std::string documentDirectory = args[6];
+  
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  Monero::Wallet* wallet = entry.wallet;
+  requireAccountIndex(wallet, accountIndex);
+  requireSpendKey(wallet);
+  
+  std::vector<std::string> addresses;
+  std::vector<uint64_t> amounts;
+  parseRecipients(addressesStr, amountsStr, addresses, amounts);
+
+  // Legacy sweep spelling, kept for compatibility. New code uses sweepAll:
+  Monero::optional<std::vector<uint64_t>> optAmounts;
+  if (addresses.size() == 1 && amounts.size() == 1 && amounts[0] == 0) {
+    optAmounts = std::nullopt;
+  } else {
+    optAmounts = amounts;
+  }
+  
+  std::set<std::string> inputs(keyImages.begin(), keyImages.end());
+  Monero::PendingTransaction* ptx = buildTransaction(
+    wallet, addresses, optAmounts, priority, accountIndex, {}, inputs);
+  return signedTransactionJson(wallet, ptx, documentDirectory);
+}
+
+/**
+ * Sweep an entire account, or some of its subaddresses, to one address.
+ * Args: walletId, address, priority, accountIndex, subaddrIndices (comma-separated, empty for all), documentDirectory
+ * Returns: JSON with txid, signedTxHex, and fee
+ */
+std::string sweepAll(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string address = args[1];
+  int priority = std::stoi(args[2]);
+  uint32_t accountIndex = std::stoul(args[3]);
+  std::set<uint32_t> subaddrIndices = parseIndexSet(args[4]);
+  std::string documentDirectory = args[5];
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireAccountIndex(wallet, accountIndex);
+  requireSpendKey(wallet);
+  
+  Monero::PendingTransaction* ptx = buildTransaction(
+    wallet, {address}, std::nullopt, priority, accountIndex, subaddrIndices);
+  return signedTransactionJson(wallet, ptx, documentDirectory);
+}
+
+/**
+ * Sweep unmixable (dust) outputs back into the wallet.
+ * Args: walletId, documentDirectory
+ * Returns: JSON with txid, signedTxHex, and fee
+ */
+std::string sweepUnmixable(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string documentDirectory = args[1];
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireSpendKey(wallet);
+  
+  LwsAccountScope lwsScope(wallet->address(0, 0));
+  wallet->pauseRefresh();
+  Monero::PendingTransaction* ptx = wallet->createSweepUnmixableTransaction();
+  restartRefresh(wallet);
+  
+  checkPendingTransaction(wallet, ptx);
+  return signedTransactionJson(wallet, ptx, documentDirectory);
+}
+
+/**
+ * Sweep a single output, identified by its key image, to one address.
+ * Args: walletId, keyImage, address, priority, documentDirectory
+ * Returns: JSON with txid, signedTxHex, and fee
+ */
+std::string sweepOutput(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string keyImage = args[1];
+  std::string address = args[2];
+  int priority = std::stoi(args[3]);
+  std::string documentDirectory = args[4];
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireSpendKey(wallet);
+  if (!Monero::Wallet::addressValid(address, wallet->nettype())) {
+    throw MoneroError("INVALID_ADDRESS", "Invalid destination address: " + address);
+  }
+  
+  const Monero::CoinsInfo* coin = findOutputOrThrow(wallet->coins(), keyImage);
+  if (coin->spent()) {
+    throw MoneroError("INVALID_ARGUMENT", "Output already spent: " + keyImage);
+  }
+  
+  LwsAccountScope lwsScope(wallet->address(0, 0));
+  wallet->pauseRefresh();
+  Monero::PendingTransaction* ptx = wallet->createTransactionSingle(
+    keyImage, address, 1, static_cast<Monero::PendingTransaction::Priority>(priority));
+  restartRefresh(wallet);
+  
+  checkPendingTransaction(wallet, ptx);
+  return signedTransactionJson(wallet, ptx, documentDirectory);
+}
+
+/** Helper to parse an optional boolean, where "" means unset. */
+static std::optional<bool> parseOptionalBool(const std::string& str) {
+  if (str.empty()) return std::nullopt;
+  if (str == "true") return true;
+  if (str == "false") return false;
+  throw MoneroError("INVALID_ARGUMENT", "Invalid boolean: " + str);
+}
+
+/**
+ * List the wallet's outputs. Every filter may be "" to leave it unset.
+ * Outputs whose key image is not known yet (view-only wallets) have an
+ * empty keyImage and cannot be frozen or spent explicitly.
+ * Args: walletId, accountIndex, spent, frozen, minAmount
+ * Returns: JSON array of outputs
+ */
+std::string listOutputs(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::optional<uint64_t> accountIndex = parseOptionalNumber(args[1]);
+  std::optional<bool> spent = parseOptionalBool(args[2]);
+  std::optional<bool> frozen = parseOptionalBool(args[3]);
+  std::optional<uint64_t> minAmount = parseOptionalNumber(args[4]);
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  Monero::Coins* coins = wallet->coins();
+  coins->refresh();
+  
+  std::string json = "[";
+  bool first = true;
+  for (const Monero::CoinsInfo* coin : coins->getAll()) {
+    if (accountIndex && coin->subaddrAccount() != *accountIndex) continue;
+    if (spent && coin->spent() != *spent) continue;
+    if (frozen && coin->frozen() != *frozen) continue;
+    if (minAmount && coin->amount() < *minAmount) continue;
+    
+    if (!first) json += ",";
+    json += "{\"amount\":\"" + std::to_string(coin->amount()) + "\",";
+    json += "\"keyImage\":\"" + jsonEscape(coin->keyImageKnown() ? coin->keyImage() : "") + "\",";
+    json += "\"txHash\":\"" + jsonEscape(coin->hash()) + "\",";
+    json += "\"globalIndex\":" + std::to_string(coin->globalOutputIndex()) + ",";
+    json += "\"blockHeight\":" + std::to_string(coin->blockHeight()) + ",";
+    json += "\"accountIndex\":" + std::to_string(coin->subaddrAccount()) + ",";
+    json += "\"subaddrIndex\":" + std::to_string(coin->subaddrIndex()) + ",";
+    json += "\"address\":\"" + jsonEscape(coin->address()) + "\",";
+    json += "\"spent\":" + std::string(coin->spent() ? "true" : "false") + ",";
+    json += "\"unlocked\":" + std::string(coin->unlocked() ? "true" : "false") + ",";
+    json += "\"frozen\":" + std::string(coin->frozen() ? "true" : "false") + "}";
+    first = false;
+  }
+  json += "]";
+  return json;
+}
+
+/**
+ * Freeze an output, so coin selection never spends it.
+ * Args: walletId, keyImage
+ * Returns: "ok"
+ */
+std::string freezeOutput(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string keyImage = args[1];
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  Monero::Coins* coins = wallet->coins();
+  coins->setFrozen(findOutputOrThrow(coins, keyImage)->pubKey());
+  checkWalletStatus(wallet, "Failed to freeze output");
+  return "ok";
+}
+
+/**
+ * Thaw a frozen output, so coin selection may spend it again.
+ * Args: walletId, keyImage
+ * Returns: "ok"
+ */
+std::string thawOutput(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string keyImage = args[1];
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  Monero::Coins* coins = wallet->coins();
+  coins->thaw(findOutputOrThrow(coins, keyImage)->pubKey());
+  checkWalletStatus(wallet, "Failed to thaw output");
+  return "ok";
+}
+
+/**
+ * Helper to run a file-based wallet export and return the file as hex.
+ * The export callback receives a temp file path to write.
+ */
+template <typename Export>
+static std::string exportToHex(const std::string& documentDirectory, const std::string& name, Export exportFile) {
+  TempFile tempFile(documentDirectory, name);
+  bool success = exportFile(tempFile.path);
+  std::string contents = readFileOrEmpty(tempFile.path);
+  if (!success || contents.empty()) return "";
+  return epee::string_tools::buff_to_hex_nodelimer(contents);
+}
+
+/**
+ * Helper to run a file-based wallet import from hex.
+ * The import callback receives a temp file path to read.
+ */
+template <typename Import>
+static bool importFromHex(const std::string& documentDirectory, const std::string& name, const std::string& hex, Import importFile) {
+  std::string contents;
+  if (!epee::string_tools::parse_hexstr_to_binbuff(hex, contents)) {
+    throw MoneroError("INVALID_ARGUMENT", "Invalid hex string");
+  }
+  TempFile tempFile(documentDirectory, name);
+  writeFileOrThrow(tempFile.path, contents);
+  return importFile(tempFile.path);
+}
+
+/** Helper to report an import's effect on the wallet. */
+static std::string importResultJson(WalletEntry& entry, size_t count) {
+  refreshWalletCache(entry);
+  std::string json = "{";
+  json += "\"count\":" + std::to_string(count) + ",";
+  json += "\"balance\":\"" + std::to_string(entry.cachedBalance) + "\",";
+  json += "\"unlockedBalance\":\"" + std::to_string(entry.cachedUnlockedBalance) + "\"";
+  json += "}";
+  return json;
+}
+
+/**
+ * Export the wallet's outputs, so an offline wallet with the spend key can
+ * compute their key images. Normally run on the view-only wallet.
+ * Args: walletId, all ("true" for every output, "false" for new ones only), documentDirectory
+ * Returns: Hex string
+ */
+std::string exportOutputs(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  bool all = args[1] == "true";
+  std::string documentDirectory = args[2];
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  std::string hex = exportToHex(documentDirectory, "outputs", [&](const std::string& file) {
+    return wallet->exportOutputs(file, all);
+  });
+  if (hex.empty()) checkWalletStatus(wallet, "Failed to export outputs");
+  return hex;
+}
+
+/**
+ * Import outputs from exportOutputs. Normally run on the offline wallet.
+ * Args: walletId, outputsHex, documentDirectory
+ * Returns: JSON with count (outputs the wallet knows), balance, and unlockedBalance
+ */
+std::string importOutputs(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string outputsHex = args[1];
+  std::string documentDirectory = args[2];
+  
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  Monero::Wallet* wallet = entry.wallet;
+  bool success = importFromHex(documentDirectory, "outputs", outputsHex, [&](const std::string& file) {
+    return wallet->importOutputs(file);
+  });
+  if (!success) {
+    checkWalletStatus(wallet, "Failed to import outputs");
+    throw MoneroError("WALLET_ERROR", "Failed to import outputs");
+  }
+  
+  Monero::Coins* coins = wallet->coins();
+  coins->refresh();
+  return importResultJson(entry, coins->count());
+}
+
+/**
+ * Export signed key images, so a view-only wallet can see which of its
+ * outputs are spent. Needs the spend key.
+ * Args: walletId, all ("true" for every output, "false" for new ones only), documentDirectory
+ * Returns: Hex string
+ */
+std::string exportKeyImages(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  bool all = args[1] == "true";
+  std::string documentDirectory = args[2];
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireSpendKey(wallet);
+  std::string hex = exportToHex(documentDirectory, "key_images", [&](const std::string& file) {
+    return wallet->exportKeyImages(file, all);
+  });
+  if (hex.empty()) checkWalletStatus(wallet, "Failed to export key images");
+  return hex;
+}
+
+/**
+ * Import signed key images from exportKeyImages. Normally run on the
+ * view-only wallet; checking spent status needs a daemon connection.
+ * Args: walletId, keyImagesHex, documentDirectory
+ * Returns: JSON with count (outputs with known key images), balance, and unlockedBalance
+ */
+std::string importKeyImages(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string keyImagesHex = args[1];
+  std::string documentDirectory = args[2];
+  
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  Monero::Wallet* wallet = entry.wallet;
+  bool success = importFromHex(documentDirectory, "key_images", keyImagesHex, [&](const std::string& file) {
+    return wallet->importKeyImages(file);
+  });
+  if (!success) {
+    checkWalletStatus(wallet, "Failed to import key images");
+    throw MoneroError("WALLET_ERROR", "Failed to import key images");
+  }
+  
+  Monero::Coins* coins = wallet->coins();
+  coins->refresh();
+  std::vector<Monero::CoinsInfo*> all = coins->getAll();
+  size_t count = std::count_if(all.begin(), all.end(), [](Monero::CoinsInfo* coin) { return coin->keyImageKnown(); });
+  return importResultJson(entry, count);
+}
+
+/** Helper to load an unsigned transaction set from hex and run a callback on it. */
+template <typename Use>
+static std::string withUnsignedTransaction(
+  Monero::Wallet* wallet,
+  const std::string& unsignedTxHex,
+  const std::string& documentDirectory,
+  Use use
+) {
+  std::string result;
+  importFromHex(documentDirectory, "tx_unsigned", unsignedTxHex, [&](const std::string& file) {
+    std::unique_ptr<Monero::UnsignedTransaction> utx(wallet->loadUnsignedTx(file));
+    if (!utx || utx->status() != Monero::UnsignedTransaction::Status_Ok) {
+      std::string error = utx ? utx->errorString() : wallet->errorString();
+      throw MoneroError(classifyError(error, "TRANSACTION_ERROR"), "Failed to load unsigned transaction: " + error);
+    }
+    result = use(*utx);
+    return true;
+  });
+  return result;
 }
 
 /**
- * Create a transaction (multi-recipient supported).
- * Args: walletId, addresses (comma-separated), amounts (comma-separated), priority, documentDirectory
- * Returns: JSON with txid, signedTxHex, and fee
+ * Create an unsigned transaction on a view-only wallet, for signing on an
+ * offline wallet with signUnsignedTransaction. The view-only wallet needs
+ * key images from that wallet (importKeyImages) to select inputs.
+ * When key images are given, only those outputs are spent.
+ * Args: walletId, addresses (comma-separated), amounts (comma-separated), priority, accountIndex,
+ *   keyImages (comma-separated, empty for automatic coin selection), documentDirectory
+ * Returns: JSON with unsignedTxHex, amount, and fee
  */
-std::string createTransaction(const std::vector<std::string> &args) {
+std::string createUnsignedTransaction(const std::vector<std::string> &args) {
   std::string walletId = args[0];
   std::string addressesStr = args[1];
   std::string amountsStr = args[2];
   int priority = std::stoi(args[3]);
-  std::string documentDirectory = args[4];
-  
-  WalletEntry& entry = findWalletOrThrow(walletId);
-  Monero::Wallet* wallet = entry.wallet;
+  uint32_t accountIndex = std::stoul(args[4]);
+  std::vector<std::string> keyImages = splitString(args[5], ',');
+  std::string documentDirectory = args[6];
   
-  std::vector<std::string> addresses = splitString(addressesStr, ',');
-  std::vector<std::string> amountStrs = splitString(amountsStr, ',');
-  
-  if (addresses.empty() || addresses.size() != amountStrs.size()) {
-    throw std::runtime_error("Addresses and amounts must have same length and not be empty");
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireAccountIndex(wallet, accountIndex);
+  if (!wallet->watchOnly()) {
+    throw MoneroError("INVALID_ARGUMENT", "Only view-only wallets create unsigned transactions");
   }
   
+  std::vector<std::string> addresses;
   std::vector<uint64_t> amounts;
-  for (const auto& amt : amountStrs) {
-    amounts.push_back(std::stoull(amt));
-  }
-
-  Monero::optional<std::vector<uint64_t>> optAmounts;
-  if (addresses.size() == 1 && amounts.size() == 1 && amounts[0] == 0) {
-    optAmounts = std::nullopt;
-  } else {
-    optAmounts = amounts;
-  }
-  
-  wallet->pauseRefresh();
-  
-  Monero::PendingTransaction* ptx = wallet->createTransactionMultDest(
-    addresses,
-    "",
-    optAmounts,
-    0,
-    static_cast<Monero::PendingTransaction::Priority>(priority)
-  );
-  
-  wallet->startRefresh();
-  
-  if (ptx == nullptr) {
-    throw std::runtime_error("Failed to create transaction");
-  }
-  
-  if (ptx->status() != Monero::PendingTransaction::Status_Ok) {
-    std::string error = ptx->errorString();
-    wallet->disposeTransaction(ptx);
-    throw std::runtime_error("Transaction error: " + error);
-  }
+  parseRecipients(addressesStr, amountsStr, addresses, amounts);
   
-  std::vector<std::string> txIds = ptx->txid();
-  std::string txHash = txIds.empty() ? "" : txIds[0];
+  std::set<std::string> inputs(keyImages.begin(), keyImages.end());
+  Monero::PendingTransaction* ptx = buildTransaction(
+    wallet, addresses, amounts, priority, accountIndex, {}, inputs);
+  uint64_t amount = ptx->amount();
   uint64_t fee = ptx->fee();
   
-  std::string tempFile = documentDirectory + "/tx_" + std::to_string(++gTxFileCounter) + ".signed";
-  
-  if (!ptx->commit(tempFile, true)) {
-    std::string error = ptx->errorString();
-    wallet->disposeTransaction(ptx);
-    throw std::runtime_error("Failed to save transaction: " + error);
-  }
-  
+  // Committing a view-only wallet's transaction saves the unsigned set:
+  std::string unsignedTxHex = exportToHex(documentDirectory, "tx_unsigned", [&](const std::string& file) {
+    return ptx->commit(file, true);
+  });
+  std::string error = ptx->errorString();
   wallet->disposeTransaction(ptx);
-  
-  std::ifstream file(tempFile, std::ios::binary);
-  if (!file.is_open()) {
-    throw std::runtime_error("Failed to read signed transaction file");
+  if (unsignedTxHex.empty()) {
+    throw MoneroError("TRANSACTION_ERROR", "Failed to save unsigned transaction: " + error);
   }
-  std::string fileContents((std::istreambuf_iterator<char>(file)), std::istreambuf_iterator<char>());
-  file.close();
   
-  std::remove(tempFile.c_str());
+  std::string json = "{";
+  json += "\"unsignedTxHex\":\"" + unsignedTxHex + "\",";
+  json += "\"amount\":\"" + std::to_string(amount) + "\",";
+  json += "\"fee\":\"" + std::to_string(fee) + "\"";
+  json += "}";
+  return json;
+}
+
+/**
+ * Summarize an unsigned transaction set, so the user can confirm it on the
+ * signing device before signing. Needs the wallet that will sign it.
+ * Args: walletId, unsignedTxHex, documentDirectory
+ * Returns: JSON with txCount, amount, fee, and recipients
+ */
+std::string describeUnsignedTransaction(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string unsignedTxHex = args[1];
+  std::string documentDirectory = args[2];
   
-  std::string signedTxHex = epee::string_tools::buff_to_hex_nodelimer(fileContents);
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  return withUnsignedTransaction(wallet, unsignedTxHex, documentDirectory, [](Monero::UnsignedTransaction& utx) {
+    uint64_t amount = 0;
+    for (uint64_t value : utx.amount()) amount += value;
+    uint64_t fee = 0;
+    for (uint64_t value : utx.fee()) fee += value;
+    std::vector<std::string> recipients;
+    for (const auto& address : utx.recipientAddress()) {
+      if (std::find(recipients.begin(), recipients.end(), address) == recipients.end()) {
+        recipients.push_back(address);
+      }
+    }
+    
+    std::string json = "{";
+    json += "\"txCount\":" + std::to_string(utx.txCount()) + ",";
+    json += "\"amount\":\"" + std::to_string(amount) + "\",";
+    json += "\"fee\":\"" + std::to_string(fee) + "\",";
+    json += "\"recipients\":[";
+    for (size_t i = 0; i < recipients.size(); ++i) {
+      if (i > 0) json += ",";
+      json += "\"" + jsonEscape(recipients[i]) + "\"";
+    }
+    json += "]}";
+    return json;
+  });
+}
+
+/**
+ * Sign an unsigned transaction set. This needs no network connection.
+ * Broadcast the result with broadcastTransaction from the view-only wallet.
+ * Args: walletId, unsignedTxHex, documentDirectory
+ * Returns: JSON with signedTxHex and fee
+ */
+std::string signUnsignedTransaction(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string unsignedTxHex = args[1];
+  std::string documentDirectory = args[2];
   
-  return "{\"txid\":\"" + txHash + "\",\"signedTxHex\":\"" + signedTxHex + "\",\"fee\":\"" + std::to_string(fee) + "\"}";
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireSpendKey(wallet);
+  return withUnsignedTransaction(wallet, unsignedTxHex, documentDirectory, [&](Monero::UnsignedTransaction& utx) {
+    uint64_t fee = 0;
+    for (uint64_t value : utx.fee()) fee += value;
+    std::string signedTxHex = exportToHex(documentDirectory, "tx_signed", [&](const std::string& file) {
+      return utx.sign(file);
+    });
+    if (signedTxHex.empty()) {
+      std::string error = utx.errorString();
+      throw MoneroError(classifyError(error, "TRANSACTION_ERROR"), "Failed to sign transaction: " + error);
+    }
+    
+    std::string json = "{";
+    json += "\"signedTxHex\":\"" + signedTxHex + "\",";
+    json += "\"fee\":\"" + std::to_string(fee) + "\"";
+    json += "}";
+    return json;
+  });
 }
 
 /**
  * Broadcast a previously created transaction.
- * Args: walletId, signedTxHex (hex string from createTransaction), documentDirectory
+ * Args: walletId, signedTxHex (hex string from createTransaction or signUnsignedTransaction), documentDirectory
  * Returns: "success" on success (txid is obtained from createTransaction result)
  */
 std::string broadcastTransaction(const std::vector<std::string> &args) {
@@ -700,29 +2951,265 @@ std::string broadcastTransaction(const std::vector<std::string> &args) {
   
   std::string signedTxBlob;
   if (!epee::string_tools::parse_hexstr_to_binbuff(signedTxHex, signedTxBlob)) {
-    throw std::runtime_error("Invalid hex string");
+    throw MoneroError("INVALID_ARGUMENT", "Invalid hex string");
   }
   
-  std::string tempFile = documentDirectory + "/tx_broadcast_" + std::to_string(++gTxFileCounter) + ".signed";
-  std::ofstream file(tempFile, std::ios::binary);
+  TempFile tempFile(documentDirectory, "tx_broadcast");
+  std::ofstream file(tempFile.path, std::ios::binary);
   if (!file.is_open()) {
-    throw std::runtime_error("Failed to create temp file for broadcast");
+    throw MoneroError("BROADCAST_REJECTED", "Failed to create temp file for broadcast");
   }
   file.write(signedTxBlob.data(), signedTxBlob.size());
   file.close();
   
-  bool success = wallet->submitTransaction(tempFile);
-  
-  std::remove(tempFile.c_str());
+  LwsAccountScope lwsScope(entry.primaryAddress);
+  bool success = wallet->submitTransaction(tempFile.path);
   
   if (!success) {
-    throw std::runtime_error("Broadcast failed: " + wallet->errorString());
+    std::string error = wallet->errorString();
+    throw MoneroError(classifyError(error, "BROADCAST_REJECTED"), "Broadcast failed: " + error);
   }
   
   return "success";
 }
 
-/** Helper: escape a string for JSON (escape backslash and double-quote). */
+/** Helper to serialize the JSON fields shared by checkTxKey and checkTxProof. */
+static std::string txCheckFields(uint64_t received, bool inPool, uint64_t confirmations) {
+  std::string json;
+  json += "\"received\":\"" + std::to_string(received) + "\",";
+  json += "\"inPool\":" + std::string(inPool ? "true" : "false") + ",";
+  json += "\"confirmations\":" + std::to_string(confirmations);
+  return json;
+}
+
+/**
+ * Prove that a transaction paid an address (outgoing transactions), or that
+ * an address received it (incoming transactions).
+ * Args: walletId, txid, address, message
+ * Returns: Signature string
+ */
+std::string getTxProof(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string txid = args[1];
+  std::string address = args[2];
+  std::string message = args[3];
+  requireTxid(txid);
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  std::string signature = wallet->getTxProof(txid, address, message);
+  checkWalletStatus(wallet, "Failed to create transaction proof");
+  return signature;
+}
+
+/**
+ * Check a proof from getTxProof. A bad signature is not an error.
+ * Args: walletId, txid, address, message, signature
+ * Returns: JSON with good, received, inPool, and confirmations
+ */
+std::string checkTxProof(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string txid = args[1];
+  std::string address = args[2];
+  std::string message = args[3];
+  std::string signature = args[4];
+  requireTxid(txid);
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  bool good = false;
+  uint64_t received = 0;
+  bool inPool = false;
+  uint64_t confirmations = 0;
+  if (!wallet->checkTxProof(txid, address, message, signature, good, received, inPool, confirmations)) {
+    checkWalletStatus(wallet, "Failed to check transaction proof");
+  }
+
+  std::string json = "{";
+  json += "\"good\":" + std::string(good ? "true" : "false") + ",";
+  json += txCheckFields(received, inPool, confirmations);
+  json += "}";
+  return json;
+}
+
+/**
+ * Check how much a transaction paid an address, using its secret tx key.
+ * Args: walletId, txid, txKey, address
+ * Returns: JSON with received, inPool, and confirmations
+ */
+std::string checkTxKey(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string txid = args[1];
+  std::string txKey = args[2];
+  std::string address = args[3];
+  requireTxid(txid);
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  uint64_t received = 0;
+  bool inPool = false;
+  uint64_t confirmations = 0;
+  if (!wallet->checkTxKey(txid, txKey, address, received, inPool, confirmations)) {
+    checkWalletStatus(wallet, "Failed to check transaction key");
+  }
+  return "{" + txCheckFields(received, inPool, confirmations) + "}";
+}
+
+/**
+ * Prove that this wallet sent a transaction by signing with its inputs.
+ * Args: walletId, txid, message
+ * Returns: Signature string
+ */
+std::string getSpendProof(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string txid = args[1];
+  std::string message = args[2];
+  requireTxid(txid);
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  std::string signature = wallet->getSpendProof(txid, message);
+  checkWalletStatus(wallet, "Failed to create spend proof");
+  return signature;
+}
+
+/**
+ * Check a proof from getSpendProof. A bad signature is not an error.
+ * Args: walletId, txid, message, signature
+ * Returns: "true" or "false"
+ */
+std::string checkSpendProof(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string txid = args[1];
+  std::string message = args[2];
+  std::string signature = args[3];
+  requireTxid(txid);
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  bool good = false;
+  if (!wallet->checkSpendProof(txid, message, signature, good)) {
+    checkWalletStatus(wallet, "Failed to check spend proof");
+  }
+  return good ? "true" : "false";
+}
+
+/**
+ * Prove that an account holds at least some amount of unspent funds.
+ * Args: walletId, accountIndex, amount ("" to prove the whole wallet balance), message
+ * Returns: Signature string
+ */
+std::string getReserveProof(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  uint32_t accountIndex = std::stoul(args[1]);
+  std::string amountStr = args[2];
+  std::string message = args[3];
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireAccountIndex(wallet, accountIndex);
+  requireSpendKey(wallet);
+
+  bool all = amountStr.empty();
+  uint64_t amount = 0;
+  if (!all) {
+    try {
+      amount = std::stoull(amountStr);
+    } catch (...) {
+      throw MoneroError("INVALID_AMOUNT", "Invalid amount: " + amountStr);
+    }
+  }
+  
+  std::string signature = wallet->getReserveProof(all, accountIndex, amount, message);
+  checkWalletStatus(wallet, "Failed to create reserve proof");
+  return signature;
+}
+
+/**
+ * Check a proof from getReserveProof. A bad signature is not an error.
+ * Args: walletId, address, message, signature
+ * Returns: JSON with good, total, and spent
+ */
+std::string checkReserveProof(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string address = args[1];
+  std::string message = args[2];
+  std::string signature = args[3];
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  bool good = false;
+  uint64_t total = 0;
+  uint64_t spent = 0;
+  if (!wallet->checkReserveProof(address, message, signature, good, total, spent)) {
+    checkWalletStatus(wallet, "Failed to check reserve proof");
+  }
+
+  std::string json = "{";
+  json += "\"good\":" + std::string(good ? "true" : "false") + ",";
+  json += "\"total\":\"" + std::to_string(total) + "\",";
+  json += "\"spent\":\"" + std::to_string(spent) + "\"";
+  json += "}";
+  return json;
+}
+
+/**
+ * Sign a message with the spend or view key of one of the wallet's addresses.
+ * Args: walletId, message, keyType ("spend" or "view"), accountIndex, subaddrIndex
+ * Returns: Signature string
+ */
+std::string signMessage(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string message = args[1];
+  std::string keyType = args[2];
+  uint32_t accountIndex = std::stoul(args[3]);
+  uint32_t subaddrIndex = std::stoul(args[4]);
+  
+  if (keyType != "spend" && keyType != "view") {
+    throw MoneroError("INVALID_ARGUMENT", "Invalid key type: " + keyType);
+  }
+  
+  Monero::Wallet* wallet = findWalletOrThrow(walletId).wallet;
+  requireAccountIndex(wallet, accountIndex);
+  if (subaddrIndex >= wallet->numSubaddresses(accountIndex)) {
+    throw MoneroError("INVALID_ARGUMENT", "Subaddress index out of range");
+  }
+  bool useViewKey = keyType == "view";
+  if (!useViewKey && wallet->watchOnly()) {
+    throw MoneroError("VIEW_ONLY_WALLET", "View-only wallets cannot sign with the spend key");
+  }
+  
+  std::string address = wallet->address(accountIndex, subaddrIndex);
+  std::string signature = wallet->signMessage(message, address, useViewKey);
+  checkWalletStatus(wallet, "Failed to sign message");
+  return signature;
+}
+
+/**
+ * Verify a message signature against an address. This needs no open
+ * wallet, since it only uses the public keys inside the address.
+ * Args: message, address, signature, nettype
+ * Returns: JSON with good, version, and keyType ("spend" or "view")
+ */
+std::string verifyMessage(const std::vector<std::string> &args) {
+  std::string message = args[0];
+  std::string address = args[1];
+  std::string signature = args[2];
+  cryptonote::network_type nettype = static_cast<cryptonote::network_type>(std::stoi(args[3]));
+  
+  cryptonote::address_parse_info info;
+  if (!cryptonote::get_account_address_from_str(info, nettype, address)) {
+    throw MoneroError("INVALID_ADDRESS", "Invalid address: " + address);
+  }
+  
+  // wallet2::verify only reads the address and signature, so an empty
+  // wallet object (no keys, no daemon) is enough to run it:
+  tools::wallet2 verifier(nettype, 1, true);
+  tools::wallet2::message_signature_result_t result = verifier.verify(message, info.address, signature);
+  
+  bool isViewKey = result.type == tools::wallet2::sign_with_view_key;
+  std::string json = "{";
+  json += "\"good\":" + std::string(result.valid ? "true" : "false") + ",";
+  json += "\"version\":" + std::to_string(result.valid ? result.version : 0) + ",";
+  json += "\"keyType\":\"" + std::string(isViewKey ? "view" : "spend") + "\"";
+  json += "}";
+  return json;
+}
+
+/** Helper: escape a string for JSON (quotes, backslashes, and control characters). */
 static std::string jsonEscape(const std::string& s) {
   std::string result;
   result.reserve(s.size());
@@ -732,6 +3219,11 @@ static std::string jsonEscape(const std::string& s) {
     else if (c == '\n') result += "\\n";
     else if (c == '\r') result += "\\r";
     else if (c == '\t') result += "\\t";
+    else if (static_cast<unsigned char>(c) < 0x20) {
+      char buf[8];
+      std::snprintf(buf, sizeof(buf), "\\u%04x", c);
+      result += buf;
+    }
     else result += c;
   }
   return result;
@@ -741,7 +3233,6 @@ static std::string jsonEscape(const std::string& s) {
  * Parse a monero: URI.
  * Args: uri, nettype
  * Returns: JSON with address, paymentId, amount, txDescription, recipientName, unknownParameters
- * or JSON with error field on failure
  */
 std::string parseUri(const std::vector<std::string> &args) {
   std::string uri = args[0];
@@ -757,7 +3248,7 @@ std::string parseUri(const std::vector<std::string> &args) {
   std::string error;
 
   if (!wallet->parse_uri(uri, address, paymentId, amount, txDescription, recipientName, unknownParameters, error)) {
-    return "{\"error\":\"" + jsonEscape(error) + "\"}";
+    throw MoneroError("INVALID_URI", error);
   }
 
   std::string json = "{";
@@ -779,7 +3270,7 @@ std::string parseUri(const std::vector<std::string> &args) {
 /**
  * Encode a monero: URI.
  * Args: address, paymentId, amount (atomic string), txDescription, recipientName, nettype
- * Returns: URI string, or JSON with error field on failure
+ * Returns: URI string
  */
 std::string encodeUri(const std::vector<std::string> &args) {
   std::string address = args[0];
@@ -795,7 +3286,7 @@ std::string encodeUri(const std::vector<std::string> &args) {
     try {
       amount = std::stoull(amountStr);
     } catch (...) {
-      return "{\"error\":\"Invalid amount: " + jsonEscape(amountStr) + "\"}";
+      throw MoneroError("INVALID_AMOUNT", "Invalid amount: " + amountStr);
     }
   }
 
@@ -803,14 +3294,198 @@ std::string encodeUri(const std::vector<std::string> &args) {
   std::string uri = wallet->make_uri(address, paymentId, amount, txDescription, recipientName, error);
 
   if (uri.empty()) {
-    return "{\"error\":\"" + jsonEscape(error) + "\"}";
+    throw MoneroError(classifyError(error, "INVALID_URI"), error);
   }
 
   return uri;
 }
 
+/** Timeout for light-wallet REST calls made directly by this module. */
+static const std::chrono::seconds LWS_REST_TIMEOUT(30);
+
+/** Status and body of a light-wallet REST response. */
+struct LwsResponse {
+  int status;
+  rapidjson::Document body;
+};
+
+/** Helper to require an open wallet on the LWS backend. */
+static WalletEntry& findLwsWalletOrThrow(const std::string& walletId) {
+  WalletEntry& entry = findWalletOrThrow(walletId);
+  if (entry.backend != "lws") {
+    throw MoneroError("INVALID_ARGUMENT", "Only LWS wallets have light-wallet server accounts");
+  }
+  return entry;
+}
+
+/**
+ * Helper to POST to the wallet's light-wallet server, adding the account's
+ * credentials to the body.
+ */
+static LwsResponse lwsPost(const WalletEntry& entry, const std::string& endpoint, const std::string& fieldsJson) {
+  std::optional<ServerAddress> server = parseServerAddress(entry.activeDaemon);
+  if (!server) {
+    throw MoneroError("INVALID_ARGUMENT", "Invalid LWS server address: " + entry.activeDaemon);
+  }
+  auto reply = httpPost(*server, endpoint, lwsRequestBody(entry, fieldsJson), LWS_REST_TIMEOUT);
+  if (!reply) {
+    throw MoneroError("DAEMON_UNREACHABLE", "No response from LWS server at " + entry.activeDaemon);
+  }
+  
+  LwsResponse response;
+  response.status = reply->first;
+  if (response.status == 200) {
+    response.body.Parse(reply->second.c_str());
+    if (response.body.HasParseError() || !response.body.IsObject()) {
+      throw MoneroError("LWS_ERROR", "Malformed response from LWS server " + endpoint);
+    }
+  }
+  return response;
+}
+
+/** Helper to turn a non-200 light-wallet REST response into an error. */
+static void checkLwsResponse(const LwsResponse& response, const std::string& endpoint) {
+  if (response.status != 200) {
+    throw MoneroError("LWS_ERROR", "LWS server " + endpoint + " returned HTTP " + std::to_string(response.status));
+  }
+}
+
+/**
+ * Cache attribute set while the wallet's account creation request waits
+ * for approval. The REST API cannot report this, so the wallet remembers.
+ */
+static const char* LWS_PENDING_ATTRIBUTE = "react-native-monero-lwsf.lwsAccountPending";
+
+/** Helper to remember whether the account creation request awaits approval. */
+static void setLwsAccountPending(WalletEntry& entry, bool pending) {
+  entry.wallet->setCacheAttribute(LWS_PENDING_ATTRIBUTE, pending ? "1" : "");
+  storeWallet(entry.wallet);
+}
+
+/**
+ * Log in to the wallet's light-wallet server, optionally asking it to start
+ * tracking the account. Servers that need admin approval queue the account,
+ * which reports isPending. Until an admin decides, they answer further
+ * creation requests with HTTP 403, which also reports isPending when this
+ * wallet queued the request. Every other failure throws.
+ * Args: walletId, createAccount ("true" or "false")
+ * Returns: JSON with isNew, isPending, and startHeight
+ */
+std::string lwsLogin(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  bool createAccount = args[1] == "true";
+  
+  WalletEntry& entry = findLwsWalletOrThrow(walletId);
+  bool wasPending = entry.wallet->getCacheAttribute(LWS_PENDING_ATTRIBUTE) == "1";
+  std::string fields = "\"create_account\":" + std::string(createAccount ? "true" : "false");
+  fields += ",\"generated_locally\":false";
+  LwsResponse response = lwsPost(entry, "/login", fields);
+  if (response.status == 403 && createAccount && wasPending) {
+    return "{\"isNew\":false,\"isPending\":true,\"startHeight\":0}";
+  }
+  checkLwsResponse(response, "/login");
+  
+  // Servers that need approval accept the request without tracking the account:
+  bool isNew = jsonBool(response.body, "new_address");
+  bool isPending = false;
+  if (isNew && createAccount) {
+    isPending = lwsPost(entry, "/get_address_info", "").status != 200;
+  }
+  if (isPending != wasPending) setLwsAccountPending(entry, isPending);
+  
+  std::string json = "{";
+  json += "\"isNew\":" + std::string(isNew ? "true" : "false") + ",";
+  json += "\"isPending\":" + std::string(isPending ? "true" : "false") + ",";
+  json += "\"startHeight\":" + std::to_string(jsonUint64(response.body, "start_height"));
+  json += "}";
+  return json;
+}
+
+/**
+ * Ask the light-wallet server to rescan the account from an earlier height.
+ * Some servers charge a fee, paid to the returned address, before importing.
+ * Args: walletId, fromHeight ("" for the server's default)
+ * Returns: JSON with importFee, isNewRequest, isFulfilled, status, paymentAddress, and paymentId
+ */
+std::string lwsRequestImport(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::optional<uint64_t> fromHeight = parseOptionalNumber(args[1]);
+  
+  WalletEntry& entry = findLwsWalletOrThrow(walletId);
+  std::string fields = fromHeight ? "\"from_height\":" + std::to_string(*fromHeight) : "";
+  LwsResponse response = lwsPost(entry, "/import_wallet_request", fields);
+  checkLwsResponse(response, "/import_wallet_request");
+  
+  std::string json = "{";
+  json += "\"importFee\":\"" + std::to_string(jsonUint64(response.body, "import_fee")) + "\",";
+  json += "\"isNewRequest\":" + std::string(jsonBool(response.body, "new_request") ? "true" : "false") + ",";
+  json += "\"isFulfilled\":" + std::string(jsonBool(response.body, "request_fulfilled") ? "true" : "false") + ",";
+  json += "\"status\":\"" + jsonEscape(jsonString(response.body, "status")) + "\",";
+  json += "\"paymentAddress\":\"" + jsonEscape(jsonString(response.body, "payment_address")) + "\",";
+  json += "\"paymentId\":\"" + jsonEscape(jsonString(response.body, "payment_id")) + "\"";
+  json += "}";
+  return json;
+}
+
+/**
+ * Report whether the light-wallet server is tracking the account.
+ * "approved" accounts answer get_address_info. Otherwise, the REST API
+ * answers pending, rejected, hidden, and unknown accounts the same way,
+ * so this reports "pending" if lwsLogin queued a creation request that is
+ * not approved yet, and "unknown" in every other case. A queued request
+ * that an admin rejected keeps reporting "pending" until
+ * lwsForgetAccountRequest.
+ * Args: walletId
+ * Returns: JSON with state, startHeight, scannedHeight, and blockchainHeight
+ */
+std::string lwsAccountStatus(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  WalletEntry& entry = findLwsWalletOrThrow(walletId);
+  
+  std::string state = "unknown";
+  uint64_t startHeight = 0;
+  uint64_t scannedHeight = 0;
+  uint64_t blockchainHeight = 0;
+  
+  LwsResponse info = lwsPost(entry, "/get_address_info", "");
+  if (info.status == 200) {
+    state = "approved";
+    startHeight = jsonUint64(info.body, "start_height");
+    scannedHeight = jsonUint64(info.body, "scanned_block_height");
+    blockchainHeight = jsonUint64(info.body, "blockchain_height");
+    if (entry.wallet->getCacheAttribute(LWS_PENDING_ATTRIBUTE) == "1") setLwsAccountPending(entry, false);
+  } else if (info.status == 401 || info.status == 403) {
+    if (entry.wallet->getCacheAttribute(LWS_PENDING_ATTRIBUTE) == "1") state = "pending";
+  } else {
+    checkLwsResponse(info, "/get_address_info");
+  }
+  
+  std::string json = "{";
+  json += "\"state\":\"" + state + "\",";
+  json += "\"startHeight\":" + std::to_string(startHeight) + ",";
+  json += "\"scannedHeight\":" + std::to_string(scannedHeight) + ",";
+  json += "\"blockchainHeight\":" + std::to_string(blockchainHeight);
+  json += "}";
+  return json;
+}
+
+/**
+ * Forget the account creation request lwsLogin queued, such as one an
+ * admin rejected, so lwsAccountStatus stops reporting "pending". This
+ * does not contact the server.
+ * Args: walletId
+ * Returns: "ok"
+ */
+std::string lwsForgetAccountRequest(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  WalletEntry& entry = findLwsWalletOrThrow(walletId);
+  setLwsAccountPending(entry, false);
+  return "ok";
+}
+
 /**
  * Set the API key for LWS requests.
+ * Wallets with their own key (see setWalletLwsApiKey) ignore this one.
  * Args: apiKey
  * Returns: "ok"
  */
@@ -820,6 +3495,23 @@ std::string setLwsApiKey(const std::vector<std::string> &args) {
   return "ok";
 }
 
+/**
+ * Set the API key sent with one LWS wallet's requests to one server, in
+ * place of the global key. Other servers in the wallet's list never see
+ * it. An empty key switches that server back to the global key.
+ * Args: walletId, apiKey, daemonAddress ("" for the active daemon)
+ * Returns: "ok"
+ */
+std::string setWalletLwsApiKey(const std::vector<std::string> &args) {
+  std::string walletId = args[0];
+  std::string apiKey = args[1];
+  std::string daemonAddress = args[2];
+  WalletEntry& entry = findLwsWalletOrThrow(walletId);
+  if (daemonAddress.empty()) daemonAddress = entry.activeDaemon;
+  lwsf::config::set_api_key_for(entry.primaryAddress, daemonAddress, apiKey);
+  return "ok";
+}
+
 /**
  * Enable or disable routing LWSF HTTP requests through the JS fetch bridge
  * (used for Nym mixnet support).
@@ -879,20 +3571,70 @@ std::string rejectFetch(const std::vector<std::string> &args) {
 
 const MoneroMethod moneroMethods[] = {
   { "hello", 0, hello },
-  { "generateWallet", 2, generateWallet },
+  { "generateWallet", 3, generateWallet },
   { "seedAndKeysFromMnemonic", 2, seedAndKeysFromMnemonic },
   { "getNetworkBlockHeight", 3, getNetworkBlockHeight },
   { "isValidAddress", 2, isValidAddress },
-  { "openWallet", 8, openWallet },
+  { "openWallet", 9, openWallet },
+  { "openViewOnlyWallet", 10, openViewOnlyWallet },
   { "getWalletStatus", 1, getWalletStatus },
   { "getAllTransactions", 4, getAllTransactions },
+  { "queryTransactions", 15, queryTransactions },
+  { "getTransactionChanges", 2, getTransactionChanges },
+  { "setTransactionNote", 3, setTransactionNote },
+  { "getTransactionNotes", 2, getTransactionNotes },
+  { "getAccounts", 1, getAccounts },
+  { "createAccount", 2, createAccount },
+  { "getSubaddresses", 2, getSubaddresses },
+  { "createSubaddress", 3, createSubaddress },
+  { "setSubaddressLabel", 4, setSubaddressLabel },
+  { "setDaemon", 2, setDaemon },
+  { "checkDaemonHealth", 2, checkDaemonHealth },
+  { "pauseSync", 1, pauseSync },
+  { "resumeSync", 1, resumeSync },
+  { "refreshNow", 1, refreshNow },
+  { "setRefreshInterval", 2, setRefreshInterval },
+  { "rescanBlockchain", 2, rescanBlockchain },
   { "closeWallet", 1, closeWallet },
   { "deleteWallet", 3, deleteWallet },
-  { "createTransaction", 5, createTransaction },
+  { "changeWalletPassword", 3, changeWalletPassword },
+  { "verifyWalletPassword", 4, verifyWalletPassword },
+  { "exportWalletBackup", 2, exportWalletBackup },
+  { "importWalletBackup", 4, importWalletBackup },
+  { "estimateFee", 4, estimateFee },
+  { "getMaxSpendable", 4, getMaxSpendable },
+  { "createTransaction", 7, createTransaction },
+  { "sweepAll", 6, sweepAll },
+  { "sweepUnmixable", 2, sweepUnmixable },
+  { "sweepOutput", 5, sweepOutput },
+  { "listOutputs", 5, listOutputs },
+  { "freezeOutput", 2, freezeOutput },
+  { "thawOutput", 2, thawOutput },
+  { "exportOutputs", 3, exportOutputs },
+  { "importOutputs", 3, importOutputs },
+  { "exportKeyImages", 3, exportKeyImages },
+  { "importKeyImages", 3, importKeyImages },
+  { "createUnsignedTransaction", 7, createUnsignedTransaction },
+  { "describeUnsignedTransaction", 3, describeUnsignedTransaction },
+  { "signUnsignedTransaction", 3, signUnsignedTransaction },
   { "broadcastTransaction", 3, broadcastTransaction },
+  { "getTxProof", 4, getTxProof },
+  { "checkTxProof", 5, checkTxProof },
+  { "checkTxKey", 4, checkTxKey },
+  { "getSpendProof", 3, getSpendProof },
+  { "checkSpendProof", 4, checkSpendProof },
+  { "getReserveProof", 4, getReserveProof },
+  { "checkReserveProof", 4, checkReserveProof },
+  { "signMessage", 5, signMessage },
+  { "verifyMessage", 4, verifyMessage },
   { "parseUri", 2, parseUri },
   { "encodeUri", 6, encodeUri },
   { "setLwsApiKey", 1, setLwsApiKey },
+  { "setWalletLwsApiKey", 3, setWalletLwsApiKey },
+  { "lwsLogin", 2, lwsLogin },
+  { "lwsRequestImport", 2, lwsRequestImport },
+  { "lwsAccountStatus", 1, lwsAccountStatus },
+  { "lwsForgetAccountRequest", 1, lwsForgetAccountRequest },
   { "setNymEnabled", 2, setNymEnabled },
   { "resolveFetch", 3, resolveFetch },
   { "rejectFetch", 2, rejectFetch },
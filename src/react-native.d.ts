@@ -3,4 +3,11 @@ declare module 'react-native' {
   declare const NativeModules: {
     MoneroLwsfModule: NativeMoneroLwsfModule
   }
+  declare class NativeEventEmitter {
+    constructor(nativeModule?: unknown)
+    addListener(
+      eventType: string,
+      listener: (event: unknown) => void
+    ): { remove: () => void }
+  }
 }
@@ -1,3 +1,5 @@
+import type { asMoneroLwsfErrorCode } from './cleaners'
+
 export type NetworkType = 'MAINNET' | 'TESTNET' | 'STAGENET'
 
 const networkTypeMap: Record<NetworkType, number> = {
@@ -12,10 +14,40 @@ export function networkTypeToIntString(type: NetworkType): string {
 
 export type WalletBackend = 'lws' | 'monerod'
 
+/** Stable error codes carried by `MoneroLwsfError`. */
+export type MoneroLwsfErrorCode = ReturnType<typeof asMoneroLwsfErrorCode>
+
+/**
+ * Thrown by every `CppBridge` method when the native call fails.
+ * Branch on `code`, not `message`, since the message text comes from
+ * monero upstream and may change between releases.
+ */
+export class MoneroLwsfError extends Error {
+  readonly code: MoneroLwsfErrorCode
+  /** The `CppBridge` / native method name that failed. */
+  readonly method: string
+
+  constructor(code: MoneroLwsfErrorCode, message: string, method: string) {
+    super(message)
+    this.name = 'MoneroLwsfError'
+    this.code = code
+    this.method = method
+  }
+}
+
+/**
+ * Mnemonic seed formats.
+ * Legacy seeds are 25 words; polyseeds are 16 words with an embedded birthday.
+ */
+export type SeedType = 'legacy' | 'polyseed'
+
 export interface GeneratedWallet {
   mnemonic: string
   secretSpendKey: string
   publicSpendKey: string
+  seedType: SeedType
+  /** Height to restore this wallet from, estimated from its creation time. */
+  restoreHeight: number
 }
 
 /** Return type for seedAndKeysFromMnemonic. */
@@ -25,19 +57,119 @@ export interface DerivedKeys {
   publicViewKey: string
   secretSpendKey: string
   publicSpendKey: string
+  seedType: SeedType
+  /**
+   * Height derived from the polyseed birthday,
+   * or 0 for legacy seeds, which do not record one.
+   */
+  restoreHeight: number
 }
 
-/** Return type for openWallet and getWalletStatus. */
+/** Return type for openWallet, openViewOnlyWallet and getWalletStatus. */
 export interface WalletStatus {
   syncedHeight: number
   networkHeight: number
   balance: string
   unlockedBalance: string
+  /** True if the wallet holds no spend key and cannot sign transactions. */
+  isViewOnly: boolean
+  connectionStatus: ConnectionStatus
+  /** True once the wallet has caught up with the daemon. */
+  isSynchronized: boolean
+  /** The error from the latest refresh cycle, or '' if it succeeded. */
+  lastRefreshError: string
+  /** When the latest refresh cycle finished (seconds since epoch), or 0. */
+  lastRefreshTime: number
+  /** The daemon or LWS server the wallet is using. */
+  daemonAddress: string
+  backend: WalletBackend
 }
 
+/** Connection state between a wallet and its daemon. */
+export type ConnectionStatus = 'disconnected' | 'connected' | 'wrong-version'
+
 /** Transaction direction. */
 export type TransactionDirection = 0 | 1
 
+/** Daemon failover settings for openWallet and openViewOnlyWallet. */
+export interface DaemonFailoverOptions {
+  healthCheckIntervalMs?: number // default 60000
+  maxHeightLag?: number // Blocks behind the best node before failing over, default 10
+}
+
+/** Options for openWallet and openViewOnlyWallet. */
+export interface OpenWalletOptions extends DaemonFailoverOptions {
+  /**
+   * API key for this wallet's LWS requests to its first daemon, in place
+   * of the global setLwsApiKey key. Other wallets, and the other servers
+   * in the failover list, never see it. Use setWalletLwsApiKey to give
+   * those servers keys of their own.
+   */
+  lwsApiKey?: string
+}
+
+/** Result of probing one daemon, for checkDaemonHealth. */
+export interface DaemonNodeHealth {
+  address: string
+  reachable: boolean
+  height: number // 0 if unreachable
+}
+
+/** Return type for checkDaemonHealth. */
+export interface DaemonHealth {
+  activeDaemon: string
+  switched: boolean // This check failed over to a different node
+  nodes: DaemonNodeHealth[]
+}
+
+/** Options for rescanBlockchain. */
+export interface RescanOptions {
+  fromHeight?: number // default the wallet's restore height
+}
+
+/** Return type for lwsLogin. */
+export interface LwsLoginResult {
+  isNew: boolean // The server created the account, or queued its creation
+  isPending: boolean // The account awaits admin approval
+  startHeight: number // 0 while pending
+}
+
+/** Return type for lwsRequestImport. */
+export interface LwsImportRequest {
+  importFee: string // Atomic units, paid to paymentAddress before the import starts
+  isNewRequest: boolean
+  isFulfilled: boolean
+  status: string // Server-defined text
+  paymentAddress: string // '' if the import is free
+  paymentId: string
+}
+
+/**
+ * Light-wallet server account state.
+ * The REST API answers pending, rejected, hidden, and unknown accounts
+ * identically. 'pending' means this wallet queued a creation request
+ * through lwsLogin that is not approved yet, or that an admin rejected
+ * (until lwsForgetAccountRequest). Everything else that is not approved,
+ * including rejected and hidden accounts, reports 'unknown'.
+ */
+export type LwsAccountState = 'approved' | 'pending' | 'unknown'
+
+/** Return type for lwsAccountStatus. */
+export interface LwsAccountStatus {
+  state: LwsAccountState
+  startHeight: number // 0 unless approved
+  scannedHeight: number // 0 unless approved
+  blockchainHeight: number // 0 unless approved
+}
+
+/** Return type for importWalletBackup. */
+export interface ImportedWalletBackup {
+  backend: WalletBackend // Pass to openWallet
+  nettype: NetworkType // Pass to openWallet
+  restoreHeight: number
+  address: string // Primary address
+}
+
 /** Single transaction info. */
 export interface TransactionInfo {
   hash: string
@@ -55,9 +187,27 @@ export interface TransactionInfo {
   label: string
   unlockTime: number
   subaddrAccount: number
+  subaddrIndex: number[] // subaddresses within subaddrAccount the tx touched
   txKey?: string // Only available for outgoing transactions we sent
 }
 
+/** Return type for getAccounts and createAccount. */
+export interface SubaddressAccount {
+  index: number
+  address: string // primary address of the account (subaddress 0)
+  label: string
+  balance: string
+  unlockedBalance: string
+}
+
+/** Return type for getSubaddresses and createSubaddress. */
+export interface Subaddress {
+  accountIndex: number
+  index: number
+  address: string
+  label: string
+}
+
 /** Return type for getAllTransactions. */
 export interface TransactionsPage {
   transactions: TransactionInfo[]
@@ -66,6 +216,35 @@ export interface TransactionsPage {
   pageSize: number
 }
 
+/** Return type for getTransactionChanges. */
+export interface TransactionChanges {
+  transactions: TransactionInfo[] // Added or changed since the token
+  removed: string[] // txids no longer in the history, such as dropped pending transactions
+  nextToken: string // Pass to the next call
+  reset: boolean // The token was not recognized, so this is the full history
+}
+
+/** Confirmation state of a transaction, for queryTransactions. */
+export type TransactionState = 'pending' | 'failed' | 'confirmed'
+
+/** Filter and pagination options for queryTransactions. */
+export interface TransactionQuery {
+  direction?: TransactionDirection
+  accountIndex?: number
+  subaddrIndex?: number // Requires accountIndex to be meaningful
+  minHeight?: number // Inclusive
+  maxHeight?: number // Inclusive
+  minTimestamp?: number // Inclusive, seconds since epoch
+  maxTimestamp?: number // Inclusive, seconds since epoch
+  states?: TransactionState[] // Match any of these states
+  paymentId?: string
+  minAmount?: string // atomic units
+  search?: string // Case-insensitive match on description or label
+  page?: number // 0-indexed, default 0
+  pageSize?: number // default 20
+  sort?: 'asc' | 'desc' // By block height, pending always at end
+}
+
 /** Transaction priority levels. */
 export type TransactionPriority = 0 | 1 | 2 | 3
 
@@ -75,6 +254,75 @@ export interface Recipient {
   amount: string // atomic units as string to handle uint64
 }
 
+/** Return type for estimateFee. */
+export interface FeeEstimate {
+  fee: string // atomic units
+  weight: number // bytes, approximate
+}
+
+/** Return type for getMaxSpendable. */
+export interface MaxSpendable {
+  amount: string // atomic units the recipient would receive
+  fee: string // atomic units
+}
+
+/** Filter for listOutputs. Missing fields match everything. */
+export interface OutputQuery {
+  accountIndex?: number
+  spent?: boolean
+  frozen?: boolean
+  minAmount?: string // atomic units
+}
+
+/** Single output (enote) owned by the wallet. */
+export interface OutputInfo {
+  amount: string // atomic units
+  keyImage: string // '' if not known yet (view-only wallets)
+  txHash: string // Transaction that created the output
+  globalIndex: number
+  blockHeight: number
+  accountIndex: number
+  subaddrIndex: number
+  address: string // Subaddress that received the output
+  spent: boolean
+  unlocked: boolean
+  frozen: boolean // Frozen outputs are never picked by coin selection
+}
+
+/** Return type for importOutputs and importKeyImages. */
+export interface ImportResult {
+  count: number // Outputs known (importOutputs) or with key images (importKeyImages)
+  balance: string // atomic units, all accounts
+  unlockedBalance: string // atomic units, all accounts
+}
+
+/** Return type for createUnsignedTransaction. */
+export interface UnsignedTransaction {
+  unsignedTxHex: string
+  amount: string // atomic units
+  fee: string // atomic units
+}
+
+/** Return type for describeUnsignedTransaction. */
+export interface UnsignedTransactionDescription {
+  txCount: number
+  amount: string // atomic units, all transactions
+  fee: string // atomic units, all transactions
+  recipients: string[]
+}
+
+/** Return type for signUnsignedTransaction. */
+export interface OfflineSignedTransaction {
+  signedTxHex: string // Pass to broadcastTransaction
+  fee: string // atomic units
+}
+
+/** Options for sweepAll. */
+export interface SweepAllOptions {
+  accountIndex?: number
+  subaddrIndices?: number[] // Empty or missing sweeps every subaddress
+}
+
 /** Return type for createTransaction. */
 export interface SignedTransaction {
   txid: string
@@ -82,6 +330,45 @@ export interface SignedTransaction {
   fee: string
 }
 
+/** Return type for checkTxKey. */
+export interface TxKeyCheck {
+  received: string // atomic units the address received from the transaction
+  inPool: boolean // Still in the mempool
+  confirmations: number
+}
+
+/** Return type for checkTxProof. */
+export interface TxProofCheck extends TxKeyCheck {
+  good: boolean // The signature is valid
+}
+
+/** Options for getReserveProof. */
+export interface ReserveProofOptions {
+  accountIndex?: number
+  amount?: string // atomic units; missing proves the entire wallet balance
+}
+
+/** Return type for checkReserveProof. */
+export interface ReserveProofCheck {
+  good: boolean // The signature is valid
+  total: string // atomic units covered by the proof
+  spent: string // atomic units of the proven outputs spent since
+}
+
+/** Options for signMessage. */
+export interface SignMessageOptions {
+  keyType?: 'spend' | 'view' // default 'spend'
+  accountIndex?: number
+  subaddrIndex?: number
+}
+
+/** Return type for verifyMessage. */
+export interface MessageVerification {
+  good: boolean // The signature is valid for this address
+  version: number // Signature format version (0 if not good)
+  keyType: 'spend' | 'view' // Key that made the signature
+}
+
 /** Parsed Monero URI (parseUri result). */
 export interface ParsedUri {
   address: string
@@ -102,7 +389,13 @@ export interface EncodeUriParams {
 }
 
 /** Wallet event names emitted by the native WalletListener. */
-export type WalletEventName = 'pendingTransactionReceived' | 'nymFetchRequest'
+export type WalletEventName =
+  | 'pendingTransactionReceived'
+  | 'moneySpent'
+  | 'moneyReceived'
+  | 'syncProgress'
+  | 'syncCompleted'
+  | 'nymFetchRequest'
 
 /** Payload delivered by "MoneroWalletEvent" NativeEventEmitter events. */
 export interface WalletEventData {
@@ -110,14 +403,50 @@ export interface WalletEventData {
   eventName: WalletEventName
   /**
    * JSON string whose shape depends on `eventName`:
-   *   - pendingTransactionReceived: { txId: string, amount: number }
-   *   - nymFetchRequest: { url, method, headers, bodyBase64 } — in this
-   *     case `walletId` holds the nym requestId that must be passed to
+   *   - pendingTransactionReceived: `PendingTransactionPayload`
+   *   - moneySpent, moneyReceived: `MoneyTransferPayload`
+   *   - syncProgress: `SyncProgressPayload`
+   *   - syncCompleted: `SyncCompletedPayload`
+   *   - nymFetchRequest: `NymFetchRequestPayload` — in this case
+   *     `walletId` holds the nym requestId that must be passed to
    *     `resolveFetch` / `rejectFetch`.
    */
   data: string
 }
 
+/** Parsed payload for the `pendingTransactionReceived` wallet event. */
+export interface PendingTransactionPayload {
+  txId: string
+  amount: number // atomic units
+}
+
+/**
+ * Parsed payload for the `moneySpent` and `moneyReceived` wallet events,
+ * fired once a transaction touching the wallet is seen in a block.
+ */
+export interface MoneyTransferPayload {
+  txId: string
+  amount: string // atomic units as string to handle uint64
+}
+
+/**
+ * Parsed payload for the `syncProgress` wallet event.
+ * Emitted while scanning blocks, at most once per second.
+ */
+export interface SyncProgressPayload {
+  height: number
+  daemonHeight: number
+}
+
+/**
+ * Parsed payload for the `syncCompleted` wallet event.
+ * Emitted when a refresh cycle finishes with the wallet synchronized
+ * at a new height.
+ */
+export interface SyncCompletedPayload {
+  height: number
+}
+
 /** Parsed payload for the `nymFetchRequest` wallet event. */
 export interface NymFetchRequestPayload {
   url: string
@@ -125,3 +454,65 @@ export interface NymFetchRequestPayload {
   headers: Record<string, string>
   bodyBase64: string
 }
+
+/** Raw payloads carried in `WalletEventData.data`, keyed by event name. */
+export interface WalletEventPayloads {
+  pendingTransactionReceived: PendingTransactionPayload
+  moneySpent: MoneyTransferPayload
+  moneyReceived: MoneyTransferPayload
+  syncProgress: SyncProgressPayload
+  syncCompleted: SyncCompletedPayload
+  nymFetchRequest: NymFetchRequestPayload
+}
+
+/** A nym fetch request, as delivered to `CppBridge.on` handlers. */
+export interface NymFetchRequest extends NymFetchRequestPayload {
+  /** Pass this to `resolveFetch` / `rejectFetch`. */
+  requestId: string
+}
+
+/**
+ * Parsed events delivered to `CppBridge.on` handlers, keyed by event name.
+ * Wallet events carry the id of the wallet that produced them.
+ */
+export type WalletEvents = {
+  [E in Exclude<WalletEventName, 'nymFetchRequest'>]: WalletEventPayloads[E] & {
+    walletId: string
+  }
+} & { nymFetchRequest: NymFetchRequest }
+
+/** Options for `CppBridge.on`. */
+export interface WalletEventOptions {
+  /** Only deliver events from this wallet. Ignored for `nymFetchRequest`. */
+  walletId?: string
+}
+
+/**
+ * A `fetch`-compatible function used to service nym fetch requests,
+ * such as mixFetch, a Tor-backed fetch, or a test double.
+ */
+export type FetchTransportFunction = (
+  url: string,
+  init: {
+    method: string
+    headers: Record<string, string>
+    body?: Uint8Array
+    signal: AbortSignal
+  }
+) => Promise<{ status: number; arrayBuffer: () => Promise<ArrayBuffer> }>
+
+/** Options for `CppBridge.installFetchTransport`. */
+export interface FetchTransportOptions {
+  /**
+   * scheme://host[:port] of the LWSF server, as passed to `setNymEnabled`.
+   */
+  baseUrl: string
+  /** Maximum simultaneous requests; extras wait in a queue. Defaults to 4. */
+  maxConcurrent?: number
+  /**
+   * Per-request timeout, in milliseconds, counted from when the request
+   * arrives, including time spent queued. Defaults to 30000. Keep this
+   * below the native 60 s limit so the JS side always answers first.
+   */
+  timeoutMs?: number
+}
@@ -0,0 +1,125 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import {
+  asBooleanString,
+  asIntegerString,
+  asLwsAccountStatus,
+  asMoneroLwsfErrorCode,
+  asNymFetchRequestPayload,
+  asSignedTransaction,
+  asTransactionChanges,
+  asWalletEventData,
+  asWalletStatus
+} from '../src/cleaners'
+
+describe('cleaners', function () {
+  describe('atomic amounts', function () {
+    const signed = { txid: 'abc', signedTxHex: '00' }
+
+    it('accepts amounts beyond the safe integer range', function () {
+      const fee = '18446744073709551615'
+      expect(asSignedTransaction({ ...signed, fee }).fee).equals(fee)
+    })
+
+    it('rejects anything but an unsigned integer string', function () {
+      for (const fee of [123, '', '-1', '1.5', '1e9', ' 1']) {
+        expect(() => asSignedTransaction({ ...signed, fee })).throws(TypeError)
+      }
+    })
+  })
+
+  it('parses integer strings', function () {
+    expect(asIntegerString('3141592')).equals(3141592)
+    expect(() => asIntegerString('-5')).throws(TypeError)
+    expect(() => asIntegerString('12abc')).throws(TypeError)
+    expect(() => asIntegerString(12)).throws(TypeError)
+  })
+
+  it('parses boolean strings', function () {
+    expect(asBooleanString('true')).equals(true)
+    expect(asBooleanString('false')).equals(false)
+    expect(() => asBooleanString('1')).throws(TypeError)
+    expect(() => asBooleanString(true)).throws(TypeError)
+  })
+
+  it('rejects unknown error codes', function () {
+    expect(asMoneroLwsfErrorCode('WRONG_PASSWORD')).equals('WRONG_PASSWORD')
+    expect(() => asMoneroLwsfErrorCode('SEGFAULT')).throws(TypeError)
+  })
+
+  it('rejects wallet statuses with missing or mistyped fields', function () {
+    const status = {
+      syncedHeight: 100,
+      networkHeight: 200,
+      balance: '5',
+      unlockedBalance: '4',
+      isViewOnly: false,
+      connectionStatus: 'connected',
+      isSynchronized: false,
+      lastRefreshError: '',
+      lastRefreshTime: 0,
+      daemonAddress: 'node.example:18081',
+      backend: 'monerod'
+    }
+    expect(asWalletStatus(status)).deep.equals(status)
+    expect(() => asWalletStatus({ ...status, syncedHeight: '100' })).throws(
+      TypeError
+    )
+    expect(() =>
+      asWalletStatus({ ...status, connectionStatus: 'offline' })
+    ).throws(TypeError)
+    const { backend, ...withoutBackend } = status
+    expect(() => asWalletStatus(withoutBackend)).throws(TypeError)
+  })
+
+  it('rejects unknown LWS account states', function () {
+    const account = {
+      state: 'pending',
+      startHeight: 0,
+      scannedHeight: 0,
+      blockchainHeight: 0
+    }
+    expect(asLwsAccountStatus(account).state).equals('pending')
+    expect(() => asLwsAccountStatus({ ...account, state: 'inactive' })).throws(
+      TypeError
+    )
+  })
+
+  it('rejects malformed transaction changes', function () {
+    const changes = {
+      transactions: [],
+      removed: ['abc'],
+      nextToken: 'epoch:1',
+      reset: false
+    }
+    expect(asTransactionChanges(changes)).deep.equals(changes)
+    expect(() => asTransactionChanges({ ...changes, removed: [1] })).throws(
+      TypeError
+    )
+    expect(() =>
+      asTransactionChanges({ ...changes, transactions: [{}] })
+    ).throws(TypeError)
+  })
+
+  it('rejects unknown wallet events', function () {
+    const event = { walletId: 'w1', eventName: 'syncCompleted', data: '{}' }
+    expect(asWalletEventData(event)).deep.equals(event)
+    expect(() =>
+      asWalletEventData({ ...event, eventName: 'walletExploded' })
+    ).throws(TypeError)
+  })
+
+  it('rejects fetch requests with non-string headers', function () {
+    const request = {
+      url: 'https://lws.example/login',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      bodyBase64: ''
+    }
+    expect(asNymFetchRequestPayload(request)).deep.equals(request)
+    expect(() =>
+      asNymFetchRequestPayload({ ...request, headers: { 'Content-Length': 2 } })
+    ).throws(TypeError)
+  })
+})
@@ -0,0 +1,217 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { base64 } from 'rfc4648'
+
+import {
+  type FetchTransportBridge,
+  startFetchTransport
+} from '../src/fetchTransport'
+import type { FetchTransportFunction, NymFetchRequest } from '../src/types'
+
+type Answer =
+  | { requestId: string; status: number; bodyBase64: string }
+  | { requestId: string; error: string }
+
+/** A stand-in for CppBridge that records every answer. */
+function makeFakeBridge(): {
+  bridge: FetchTransportBridge
+  answers: Answer[]
+  emit: (requestId: string) => void
+  isSubscribed: () => boolean
+} {
+  let handler: ((request: NymFetchRequest) => void) | undefined
+  const answers: Answer[] = []
+  const bridge: FetchTransportBridge = {
+    on(eventName, onRequest) {
+      handler = onRequest
+      return () => {
+        handler = undefined
+      }
+    },
+    async resolveFetch(requestId, status, bodyBase64) {
+      answers.push({ requestId, status, bodyBase64 })
+    },
+    async rejectFetch(requestId, error) {
+      answers.push({ requestId, error })
+    }
+  }
+  return {
+    bridge,
+    answers,
+    emit(requestId) {
+      handler?.({
+        requestId,
+        url: `https://lws.example/${requestId}`,
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        bodyBase64: base64.stringify(new TextEncoder().encode('{}'))
+      })
+    },
+    isSubscribed: () => handler != null
+  }
+}
+
+/** A fetch function that answers after a delay, unless aborted first. */
+function makeSlowFetch(
+  ms: number,
+  signals: AbortSignal[] = []
+): FetchTransportFunction {
+  return async (url, init) => {
+    signals.push(init.signal)
+    await delay(ms)
+    const body = new TextEncoder().encode(`reply from ${url}`)
+    return { status: 200, arrayBuffer: async () => body.buffer }
+  }
+}
+
+async function delay(ms: number): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, ms))
+}
+
+describe('startFetchTransport', function () {
+  it('answers requests with the fetch response', async function () {
+    const { bridge, answers, emit } = makeFakeBridge()
+    const calls: Array<{ url: string; method: string; body?: Uint8Array }> = []
+    const stop = startFetchTransport(
+      bridge,
+      async (url, init) => {
+        calls.push({ url, method: init.method, body: init.body })
+        const body = new TextEncoder().encode('ok')
+        return { status: 201, arrayBuffer: async () => body.buffer }
+      },
+      { baseUrl: 'https://lws.example' }
+    )
+
+    emit('nym-1')
+    await delay(10)
+    stop()
+
+    expect(calls).deep.equals([
+      {
+        url: 'https://lws.example/nym-1',
+        method: 'POST',
+        body: new TextEncoder().encode('{}')
+      }
+    ])
+    expect(answers).deep.equals([
+      {
+        requestId: 'nym-1',
+        status: 201,
+        bodyBase64: base64.stringify(new TextEncoder().encode('ok'))
+      }
+    ])
+  })
+
+  it('rejects requests whose fetch fails', async function () {
+    const { bridge, answers, emit } = makeFakeBridge()
+    const stop = startFetchTransport(
+      bridge,
+      async () => {
+        throw new Error('mixnet down')
+      },
+      { baseUrl: 'https://lws.example' }
+    )
+
+    emit('nym-1')
+    await delay(10)
+    stop()
+
+    expect(answers).deep.equals([{ requestId: 'nym-1', error: 'mixnet down' }])
+  })
+
+  it('answers timed-out requests once, dropping late results', async function () {
+    const { bridge, answers, emit } = makeFakeBridge()
+    const signals: AbortSignal[] = []
+    const stop = startFetchTransport(bridge, makeSlowFetch(60, signals), {
+      baseUrl: 'https://lws.example',
+      timeoutMs: 20
+    })
+
+    emit('nym-1')
+    await delay(40)
+    expect(answers).deep.equals([
+      { requestId: 'nym-1', error: 'Fetch timed out after 20ms' }
+    ])
+    expect(signals[0].aborted).equals(true)
+
+    // The fetch ignores its abort signal, but its result goes nowhere:
+    await delay(40)
+    expect(answers).has.lengthOf(1)
+    stop()
+  })
+
+  it('counts the timeout from arrival, including time spent queued', async function () {
+    const { bridge, answers, emit } = makeFakeBridge()
+    const stop = startFetchTransport(bridge, makeSlowFetch(1000), {
+      baseUrl: 'https://lws.example',
+      maxConcurrent: 1,
+      timeoutMs: 50
+    })
+
+    emit('nym-1')
+    await delay(10)
+    emit('nym-2')
+
+    // The second request waits 40ms for a slot, then gets only 10ms more,
+    // rather than a fresh 50ms from when its fetch began:
+    await delay(70)
+    stop()
+    expect(answers).deep.equals([
+      { requestId: 'nym-1', error: 'Fetch timed out after 50ms' },
+      { requestId: 'nym-2', error: 'Fetch timed out after 50ms' }
+    ])
+  })
+
+  it('limits concurrent fetches', async function () {
+    const { bridge, answers, emit } = makeFakeBridge()
+    let active = 0
+    let maxActive = 0
+    const stop = startFetchTransport(
+      bridge,
+      async () => {
+        maxActive = Math.max(maxActive, ++active)
+        await delay(10)
+        --active
+        return { status: 200, arrayBuffer: async () => new ArrayBuffer(0) }
+      },
+      { baseUrl: 'https://lws.example', maxConcurrent: 2 }
+    )
+
+    for (let i = 1; i <= 5; ++i) emit(`nym-${i}`)
+    await delay(60)
+    stop()
+
+    expect(maxActive).equals(2)
+    expect(answers.map(answer => answer.requestId)).has.members([
+      'nym-1',
+      'nym-2',
+      'nym-3',
+      'nym-4',
+      'nym-5'
+    ])
+  })
+
+  it('answers everything outstanding when stopped', async function () {
+    const { bridge, answers, emit, isSubscribed } = makeFakeBridge()
+    const signals: AbortSignal[] = []
+    const stop = startFetchTransport(bridge, makeSlowFetch(30, signals), {
+      baseUrl: 'https://lws.example',
+      maxConcurrent: 1
+    })
+
+    emit('nym-1')
+    emit('nym-2')
+    stop()
+
+    expect(isSubscribed()).equals(false)
+    expect(signals.every(signal => signal.aborted)).equals(true)
+    expect(answers).deep.equals([
+      { requestId: 'nym-2', error: 'Fetch transport stopped' },
+      { requestId: 'nym-1', error: 'Fetch transport stopped' }
+    ])
+
+    // The in-flight fetch finishing later changes nothing:
+    await delay(50)
+    expect(answers).has.lengthOf(2)
+  })
+})